@@ -0,0 +1,185 @@
+import type * as FS from "fs";
+import type * as Module from "module";
+import type * as Path from "path";
+import type * as Url from "url";
+import { inNode } from "./env";
+import type { LogCallerInfo } from "./types";
+
+let fs: typeof FS | undefined;
+let path: typeof Path | undefined;
+let url: typeof Url | undefined;
+let SourceMap: typeof Module.SourceMap | undefined;
+if (inNode) {
+  try {
+    fs = require(`${"fs"}`);
+    path = require(`${"path"}`);
+    url = require(`${"url"}`);
+    SourceMap = require(`${"module"}`).SourceMap;
+  } catch (e) {}
+}
+
+export type CallerWrapper = string | RegExp | ((...args: any[]) => any);
+
+const STACK_TRACE_LIMIT = 50;
+
+const V8_FRAME_REGEX =
+  /^\s*at (?:(?<functionName>.+?) \()?(?<fileName>.+?):(?<lineNumber>\d+):(?<columnNumber>\d+)\)?$/;
+const GECKO_FRAME_REGEX =
+  /^\s*(?<functionName>.*?)@(?<fileName>.+?):(?<lineNumber>\d+):(?<columnNumber>\d+)$/;
+
+/**
+ * Parse a V8 (`at fn (file:1:2)`) or Firefox/Safari (`fn@file:1:2`) stack line
+ */
+export const parseStackFrame = (line: string): LogCallerInfo | undefined => {
+  const groups = (line.match(V8_FRAME_REGEX) ?? line.match(GECKO_FRAME_REGEX))
+    ?.groups;
+  if (!groups) return;
+  const functionName = groups.functionName?.replace(/^async /, "");
+  return {
+    ...(functionName && { functionName }),
+    fileName: groups.fileName,
+    lineNumber: groups.lineNumber,
+    columnNumber: groups.columnNumber,
+  };
+};
+
+const captureStack = () => {
+  const { stackTraceLimit } = Error;
+  Error.stackTraceLimit = STACK_TRACE_LIMIT;
+  try {
+    return new Error().stack?.split("\n") ?? [];
+  } finally {
+    Error.stackTraceLimit = stackTraceLimit;
+  }
+};
+
+// Logger frames are the ones from this package files in Node,
+// or from the very file holding the logger in browser bundles
+const loggerLocation = (() => {
+  const fileName = captureStack()
+    .map(parseStackFrame)
+    .find((frame) => frame?.fileName)?.fileName;
+  if (!fileName || !inNode) return fileName;
+  return fileName.slice(0, fileName.search(/[\\/][^\\/]*$/) + 1);
+})();
+
+const isLoggerFrame = (frame: LogCallerInfo) =>
+  !!loggerLocation &&
+  (inNode
+    ? !!frame.fileName?.startsWith(loggerLocation)
+    : frame.fileName === loggerLocation);
+
+const isInternalFrame = ({ fileName }: LogCallerInfo) =>
+  !fileName || /^(node:|internal\/|native$|<anonymous>$)/.test(fileName);
+
+const callerWrappers: CallerWrapper[] = [];
+
+/**
+ * Skip the frames of `wrapper` when resolving the caller of a log: a function (matched by name),
+ * a function name, or a RegExp tested against function and file names
+ */
+export const registerCallerWrapper = (wrapper: CallerWrapper) => {
+  callerWrappers.push(wrapper);
+};
+
+const isWrapperFrame = ({ functionName, fileName }: LogCallerInfo) =>
+  callerWrappers.some((wrapper) => {
+    if (wrapper instanceof RegExp)
+      return (
+        (!!functionName && wrapper.test(functionName)) ||
+        (!!fileName && wrapper.test(fileName))
+      );
+    const name = typeof wrapper === "string" ? wrapper : wrapper.name;
+    return (
+      !!name &&
+      !!functionName &&
+      (functionName === name || functionName.endsWith(`.${name}`))
+    );
+  });
+
+const sourceMaps = new Map<
+  string,
+  { map: Module.SourceMap; directory: string } | undefined
+>();
+
+const loadSourceMap = (fileName: string) => {
+  if (!fs || !path || !url || !SourceMap) return;
+  try {
+    const filePath = fileName.startsWith("file://")
+      ? url.fileURLToPath(fileName)
+      : fileName;
+    if (!path.isAbsolute(filePath)) return;
+    const source = fs.readFileSync(filePath, "utf8");
+    const mapUrl = source.match(/\/\/[#@] sourceMappingURL=(\S+)\s*$/)?.[1];
+    if (!mapUrl) return;
+
+    let payload: string;
+    let directory = path.dirname(filePath);
+    const inline = mapUrl.match(/^data:application\/json;(?:[^,]*;)?base64,/);
+    if (inline) {
+      payload = Buffer.from(mapUrl.slice(inline[0].length), "base64").toString(
+        "utf8"
+      );
+    } else {
+      const mapPath = path.resolve(directory, mapUrl);
+      payload = fs.readFileSync(mapPath, "utf8");
+      directory = path.dirname(mapPath);
+    }
+    const parsed = JSON.parse(payload);
+    return {
+      map: new SourceMap(parsed),
+      directory: path.resolve(directory, parsed.sourceRoot ?? ""),
+    };
+  } catch (e) {}
+};
+
+/**
+ * Original location of a frame from a transpiled or bundled file, when its source map is available
+ */
+export const resolveSourceLocation = (frame: LogCallerInfo): LogCallerInfo => {
+  if (!frame.fileName || !inNode) return frame;
+  if (!sourceMaps.has(frame.fileName))
+    sourceMaps.set(frame.fileName, loadSourceMap(frame.fileName));
+  const sourceMap = sourceMaps.get(frame.fileName);
+  if (!sourceMap) return frame;
+
+  const entry = sourceMap.map.findEntry(
+    Number(frame.lineNumber) - 1,
+    Number(frame.columnNumber) - 1
+  ) as Partial<Module.SourceMapping>;
+  if (!entry.originalSource || entry.originalLine === undefined) return frame;
+  const { originalSource, originalLine, originalColumn = 0 } = entry;
+  return {
+    ...frame,
+    fileName: /^[a-z][\w+.-]*:/i.test(originalSource)
+      ? originalSource
+      : path!.resolve(sourceMap.directory, originalSource),
+    lineNumber: `${originalLine + 1}`,
+    columnNumber: `${originalColumn + 1}`,
+  };
+};
+
+/**
+ * Location of the first frame outside of the logger and of the registered wrappers
+ *
+ * When no frame can be told apart from the logger ones, as when the logger is bundled
+ * with the calling code, the caller is taken `fallbackDepth` frames above the function
+ * calling `getCallerInfo`
+ */
+export const getCallerInfo = (
+  fallbackDepth: number
+): LogCallerInfo | undefined => {
+  const frames = captureStack()
+    .map(parseStackFrame)
+    .filter((frame): frame is LogCallerInfo => !!frame);
+  // Frames of captureStack, getCallerInfo and its calling function come first
+  const caller =
+    frames.find(
+      (frame) =>
+        !isLoggerFrame(frame) &&
+        !isInternalFrame(frame) &&
+        !isWrapperFrame(frame)
+    ) ??
+    frames.slice(3 + fallbackDepth).find((frame) => !isWrapperFrame(frame));
+  return caller && resolveSourceLocation(caller);
+};
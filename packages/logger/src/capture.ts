@@ -0,0 +1,117 @@
+import { formatRecord } from "./format";
+import { LEVEL_PARAMS, LogLevel } from "./levels";
+import type {
+  LogFields,
+  LogParameters,
+  LogRecord,
+  LogTransport,
+} from "./types";
+
+export type CapturedEntry = {
+  level: LogLevel;
+  scope?: string;
+  args: LogParameters;
+  fields?: LogFields;
+  /** Uncolored pretty text of the record */
+  text: string;
+  record: LogRecord;
+};
+
+export type LogQuery = {
+  level?: LogLevel;
+  scope?: string | RegExp;
+  match?: string | RegExp;
+};
+
+export interface CaptureTransport extends LogTransport {
+  readonly entries: CapturedEntry[];
+
+  find(query?: LogQuery): CapturedEntry[];
+  clear(): void;
+
+  /**
+   * Throw if no captured entry matches `query`, returns the matching entries
+   */
+  expectLogged(query?: LogQuery): CapturedEntry[];
+  /**
+   * Throw if any captured entry matches `query`
+   */
+  expectNotLogged(query?: LogQuery): void;
+}
+
+const matches = (value: string | undefined, matcher: string | RegExp) =>
+  typeof matcher === "string"
+    ? value === matcher
+    : value !== undefined && matcher.test(value);
+
+const describeQuery = ({ level, scope, match }: LogQuery) =>
+  [
+    level !== undefined && `level ${LEVEL_PARAMS[level]?.label ?? level}`,
+    scope !== undefined && `scope ${scope}`,
+    match !== undefined && `text ${match}`,
+  ]
+    .filter(Boolean)
+    .join(", ") || "anything";
+
+class CaptureTransportImpl implements CaptureTransport {
+  readonly entries: CapturedEntry[] = [];
+
+  write(record: LogRecord) {
+    this.entries.push({
+      level: record.level,
+      scope: record.scope,
+      args: record.args,
+      fields: record.fields,
+      text: formatRecord(record, "pretty", false),
+      record,
+    });
+  }
+
+  find(query: LogQuery = {}) {
+    const { level, scope, match } = query;
+    return this.entries.filter(
+      (entry) =>
+        (level === undefined || entry.level === level) &&
+        (scope === undefined || matches(entry.scope, scope)) &&
+        (match === undefined ||
+          (typeof match === "string"
+            ? entry.text.includes(match)
+            : match.test(entry.text)))
+    );
+  }
+
+  clear() {
+    this.entries.length = 0;
+  }
+
+  expectLogged(query: LogQuery = {}) {
+    const found = this.find(query);
+    if (!found.length) {
+      throw new Error(
+        [
+          `Expected a log entry matching ${describeQuery(query)}, got:`,
+          ...(this.entries.length
+            ? this.entries.map((entry) => `  ${entry.text}`)
+            : ["  (no entry)"]),
+        ].join("\n")
+      );
+    }
+    return found;
+  }
+
+  expectNotLogged(query: LogQuery = {}) {
+    const found = this.find(query);
+    if (found.length) {
+      throw new Error(
+        [
+          `Expected no log entry matching ${describeQuery(query)}, got:`,
+          ...found.map((entry) => `  ${entry.text}`),
+        ].join("\n")
+      );
+    }
+  }
+}
+
+export function captureTransport(): CaptureTransport {
+  return new CaptureTransportImpl();
+}
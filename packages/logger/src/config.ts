@@ -0,0 +1,391 @@
+import type * as FS from "fs";
+import { inBrowser, inNode } from "./env";
+import { LEVEL_METHODS, LEVEL_PARAMS, LogLevel } from "./levels";
+import type { RedactOptions } from "./redact";
+import type { LogFormat, LoggerOptions } from "./types";
+
+let fs: typeof FS | undefined;
+if (inNode) {
+  try {
+    fs = require(`${"fs"}`);
+  } catch (e) {}
+}
+
+const ENV_PREFIX = "BIGL_LOG_";
+
+export const SCOPE_SEPARATOR = ":";
+
+type ScopePattern = {
+  regex: RegExp;
+  /** Scopes that may be ancestors of a matching scope */
+  ancestors: RegExp[];
+  negated: boolean;
+  level?: LogLevel;
+};
+
+/**
+ * Options of a declarative config, levels can be given by name and redact patterns as strings
+ */
+export type LoggerConfigOptions = Partial<
+  Omit<LoggerOptions, "level" | "redact">
+> & {
+  level?: LogLevel | string;
+  redact?: Omit<RedactOptions, "patterns"> & {
+    /** `/source/flags` or plain source strings */
+    patterns?: (RegExp | string)[];
+  };
+};
+
+export type LoggerConfig = LoggerConfigOptions & {
+  scopes?: { [scope: string]: LoggerConfigOptions };
+};
+
+export type ResolvedConfig = {
+  options: Partial<LoggerOptions>;
+  scopes: { [scope: string]: Partial<LoggerOptions> };
+};
+
+const CONFIG_OPTION_KEYS: (keyof LoggerOptions)[] = [
+  "enabled",
+  "stack",
+  "date",
+  "duration",
+  "level",
+  "pad",
+  "color",
+  "format",
+  "formatter",
+  "redact",
+  "errors",
+  "dedup",
+  "inspect",
+];
+
+export type EnvironmentConfig = {
+  options: Partial<LoggerOptions>;
+  scopes: ScopePattern[];
+};
+
+const readVariable = (name: string): string | undefined => {
+  const key = ENV_PREFIX + name;
+  try {
+    if (inNode) return process.env[key] || undefined;
+    if (inBrowser) return window.localStorage?.getItem(key) || undefined;
+  } catch (e) {}
+};
+
+const parseBoolean = (value?: string) => {
+  if (value === undefined) return undefined;
+  switch (value.trim().toLowerCase()) {
+    case "1":
+    case "true":
+    case "yes":
+    case "on":
+      return true;
+    case "0":
+    case "false":
+    case "no":
+    case "off":
+      return false;
+  }
+};
+
+export const parseLevel = (value?: string): LogLevel | undefined => {
+  if (value === undefined) return undefined;
+  const name = value.trim();
+  if (/^\d+$/.test(name)) {
+    const level = parseInt(name, 10);
+    return level in LogLevel ? level : undefined;
+  }
+  const upperName = name.toUpperCase().replace(/[- ]/g, "_");
+  if (upperName in LogLevel && isNaN(Number(upperName)))
+    return LogLevel[upperName as keyof typeof LogLevel];
+  const lowerName = name.toLowerCase();
+  if (lowerName in LEVEL_METHODS) return LEVEL_METHODS[lowerName];
+};
+
+const parseFormat = (value?: string): LogFormat | undefined => {
+  switch (value?.trim().toLowerCase()) {
+    case "json":
+    case "ndjson":
+      return "json";
+    case "pretty":
+      return "pretty";
+  }
+};
+
+/**
+ * Convert a scope pattern with `*` wildcards into a RegExp
+ */
+export const scopePatternToRegex = (pattern: string) =>
+  new RegExp(
+    "^" +
+      pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*") +
+      "$"
+  );
+
+/**
+ * Parse a DEBUG-like scope list: `db*,-db:pool,http=debug`
+ */
+export const parseScopePatterns = (value?: string): ScopePattern[] =>
+  (value ?? "")
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((entry) => {
+      const negated = entry.startsWith("-");
+      const [pattern, levelName] = (negated ? entry.slice(1) : entry).split(
+        "="
+      );
+      const segments = pattern.split(SCOPE_SEPARATOR);
+      return {
+        regex: scopePatternToRegex(pattern),
+        ancestors: segments
+          .slice(1)
+          .map((_, index) =>
+            scopePatternToRegex(
+              segments.slice(0, index + 1).join(SCOPE_SEPARATOR)
+            )
+          ),
+        negated,
+        level: parseLevel(levelName),
+      };
+    });
+
+/**
+ * Read `BIGL_LOG_*` environment variables (or `localStorage` entries in browser)
+ */
+export const readEnvironmentConfig = (): EnvironmentConfig => {
+  const candidates: Partial<LoggerOptions> = {
+    enabled: parseBoolean(readVariable("ENABLED")),
+    level: parseLevel(readVariable("LEVEL")),
+    format: parseFormat(readVariable("FORMAT")),
+    stack: parseBoolean(readVariable("STACK")),
+    date: parseBoolean(readVariable("DATE")),
+    duration: parseBoolean(readVariable("DURATION")),
+    pad: parseBoolean(readVariable("PAD")),
+    color: parseBoolean(readVariable("COLOR")),
+    dedup: parseBoolean(readVariable("DEDUP")),
+  };
+  const options: Partial<LoggerOptions> = {};
+  for (const [key, value] of Object.entries(candidates)) {
+    if (value !== undefined) Object.assign(options, { [key]: value });
+  }
+  return { options, scopes: parseScopePatterns(readVariable("SCOPES")) };
+};
+
+const DURATION_FORMATS = ["s", "ms", "auto"];
+const PREFIX_SEGMENTS = ["level", "scope", "date", "duration", "caller"];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+const invalidOption = (value: unknown, path: string) =>
+  new Error(
+    `Invalid value ${
+      typeof value === "function" ? "function" : JSON.stringify(value)
+    } for "${path}"`
+  );
+
+const parsePattern = (pattern: string) => {
+  const literal = pattern.match(/^\/(.*)\/([a-z]*)$/s);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+};
+
+/**
+ * Check the type of each entry of an object option, throws on the first invalid one
+ */
+const checkEntries = (
+  value: unknown,
+  path: string,
+  checks: { [key: string]: (entry: unknown) => boolean }
+) => {
+  if (!isPlainObject(value)) throw invalidOption(value, path);
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry !== undefined && checks[key] && !checks[key](entry))
+      throw invalidOption(entry, `${path}.${key}`);
+  }
+};
+
+const resolveRedactOptions = (value: unknown, path: string): RedactOptions => {
+  checkEntries(value, path, {
+    paths: isStringArray,
+    patterns: Array.isArray,
+    censor: (censor) =>
+      typeof censor === "string" || typeof censor === "function",
+  });
+  const { patterns, ...options } = value as NonNullable<
+    LoggerConfigOptions["redact"]
+  >;
+  if (!patterns) return options;
+  return {
+    ...options,
+    patterns: patterns.map((pattern, index) => {
+      if (pattern instanceof RegExp) return pattern;
+      try {
+        if (typeof pattern === "string") return parsePattern(pattern);
+      } catch (e) {}
+      throw invalidOption(pattern, `${path}.patterns.${index}`);
+    }),
+  };
+};
+
+const resolveConfigOptions = (
+  options: LoggerConfigOptions,
+  path: string
+): Partial<LoggerOptions> => {
+  const resolved: Partial<LoggerOptions> = {};
+  for (const [key, value] of Object.entries(options)) {
+    if (!CONFIG_OPTION_KEYS.includes(key as keyof LoggerOptions))
+      throw new Error(`Unknown logger option "${path}${key}"`);
+    if (value === undefined) continue;
+    switch (key) {
+      case "level":
+        resolved.level =
+          typeof value === "string" ? parseLevel(value) : (value as LogLevel);
+        if (resolved.level === undefined || !LEVEL_PARAMS[resolved.level])
+          throw new Error(`Invalid level "${value}" for "${path}level"`);
+        break;
+      case "format":
+        resolved.format = parseFormat(value as string);
+        if (!resolved.format)
+          throw new Error(`Invalid format "${value}" for "${path}format"`);
+        break;
+      case "dedup":
+        if (
+          typeof value !== "boolean" &&
+          !(typeof value === "number" && value > 0)
+        )
+          throw invalidOption(value, path + key);
+        resolved.dedup = value;
+        break;
+      case "redact":
+        resolved.redact = resolveRedactOptions(value, path + key);
+        break;
+      case "errors":
+        checkEntries(value, path + key, {
+          frames: (frames) =>
+            frames === false || (typeof frames === "number" && frames >= 0),
+          hideNodeModules: (hide) => typeof hide === "boolean",
+        });
+        resolved.errors = value as LoggerOptions["errors"];
+        break;
+      case "formatter":
+        checkEntries(value, path + key, {
+          timestamp: (timestamp) =>
+            typeof timestamp === "string" || typeof timestamp === "function",
+          duration: (duration) => DURATION_FORMATS.includes(duration as string),
+          segments: (segments) =>
+            isStringArray(segments) &&
+            segments.every((segment) => PREFIX_SEGMENTS.includes(segment)),
+          line: (line) => typeof line === "function",
+        });
+        resolved.formatter = value as LoggerOptions["formatter"];
+        break;
+      case "inspect":
+        checkEntries(value, path + key, {});
+        resolved.inspect = value as LoggerOptions["inspect"];
+        break;
+      default:
+        // Remaining options are booleans
+        if (typeof value !== "boolean") throw invalidOption(value, path + key);
+        Object.assign(resolved, { [key]: value });
+    }
+  }
+  return resolved;
+};
+
+/**
+ * Validate a declarative config and resolve its level and format names and redact patterns,
+ * throws on the first invalid entry
+ */
+export const resolveLoggerConfig = (config: LoggerConfig): ResolvedConfig => {
+  if (!isPlainObject(config)) throw invalidOption(config, "config");
+  const { scopes = {}, ...options } = config;
+  if (!isPlainObject(scopes)) throw invalidOption(scopes, "scopes");
+  const resolved: ResolvedConfig = {
+    options: resolveConfigOptions(options, ""),
+    scopes: {},
+  };
+  for (const [scope, scopeOptions] of Object.entries(scopes)) {
+    if (!isPlainObject(scopeOptions))
+      throw invalidOption(scopeOptions, `scopes.${scope}`);
+    resolved.scopes[scope] = resolveConfigOptions(
+      scopeOptions,
+      `scopes.${scope}.`
+    );
+  }
+  return resolved;
+};
+
+export const readConfigFile = (path: string): LoggerConfig => {
+  if (!fs) throw new Error("Config files can only be read in Node environment");
+  try {
+    return JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (e) {
+    throw new Error(
+      `Cannot read logger config ${path}: ${e instanceof Error ? e.message : e}`
+    );
+  }
+};
+
+/**
+ * Call `onChange` when the file at `path` is modified, returns the function stopping the watch
+ */
+export const watchConfigFile = (path: string, onChange: () => void) => {
+  const listener = (current: FS.Stats, previous: FS.Stats) => {
+    if (current.mtimeMs !== previous.mtimeMs) onChange();
+  };
+  fs!.watchFile(path, { interval: 1000, persistent: false }, listener);
+  return () => fs!.unwatchFile(path, listener);
+};
+
+/**
+ * Options a scope gets from the scope patterns, if any pattern concerns it
+ *
+ * As with DEBUG, listed patterns restrict output to the matching scopes and
+ * negated patterns always win. `pattern=level` entries only set the level of
+ * the matching scopes, overriding the root one, without restricting output
+ * (`BIGL_LOG_LEVEL=info BIGL_LOG_SCOPES=db=debug` keeps the other scopes at info).
+ * A pattern matching a parent scope also concerns its nested scopes, and a pattern
+ * matching a nested scope does not turn its parent scopes off.
+ */
+export const getScopePatternOptions = (
+  scope: string,
+  patterns: ScopePattern[]
+): Partial<LoggerOptions> => {
+  const options: Partial<LoggerOptions> = {};
+  const segments = scope.split(SCOPE_SEPARATOR);
+  const paths = segments.map((_, index) =>
+    segments.slice(0, index + 1).join(SCOPE_SEPARATOR)
+  );
+  const matches = (pattern: ScopePattern) =>
+    paths.some((path) => pattern.regex.test(path));
+
+  const restricting = patterns.filter(
+    (p) => !p.negated && p.level === undefined
+  );
+  if (patterns.some((p) => p.negated && matches(p))) {
+    options.enabled = false;
+  } else if (restricting.length) {
+    options.enabled = restricting.some(
+      (p) => matches(p) || p.ancestors.some((regex) => regex.test(scope))
+    );
+  }
+  for (const pattern of patterns) {
+    if (
+      !pattern.negated &&
+      pattern.level !== undefined &&
+      pattern.regex.test(scope)
+    )
+      options.level = pattern.level;
+  }
+  return options;
+};
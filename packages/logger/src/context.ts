@@ -0,0 +1,28 @@
+import type { AsyncLocalStorage as AsyncLocalStorageType } from "async_hooks";
+import { inNode } from "./env";
+import type { LogFields } from "./types";
+
+let contextStorage: AsyncLocalStorageType<LogFields> | undefined;
+if (inNode) {
+  try {
+    const { AsyncLocalStorage } = require(`${"async_hooks"}`);
+    if (AsyncLocalStorage) contextStorage = new AsyncLocalStorage();
+  } catch (e) {}
+}
+
+/**
+ * Run `fn` with `fields` added to every record logged within its async call tree
+ *
+ * Without AsyncLocalStorage (browser), `fn` is simply called
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  if (!contextStorage) return fn();
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, fn);
+}
+
+/**
+ * Fields of the current log context, if any
+ */
+export function getLogContext(): LogFields | undefined {
+  return contextStorage?.getStore();
+}
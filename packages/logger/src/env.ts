@@ -0,0 +1,39 @@
+import type { Chalk } from "chalk";
+import type { inspect } from "util";
+
+// const inNode = (() => {
+//   try {
+//     const proc = require("process");
+//     return proc?.versions != null && proc?.versions?.node != null;
+//   } catch (e) {
+//     return false;
+//   }
+// })();
+const inNode =
+  typeof process !== "undefined" &&
+  process?.versions != null &&
+  process?.versions?.node != null;
+const inBrowser =
+  typeof window !== "undefined" && typeof window.document !== "undefined";
+
+const inCI =
+  inNode && !!process.env.CI && process.env.CI.toLowerCase() !== "false";
+const inGithubActions = inNode && process.env.GITHUB_ACTIONS === "true";
+
+export { inNode, inBrowser, inCI, inGithubActions };
+
+export let chalk: Chalk | undefined;
+export let utilInspect: typeof inspect;
+// let OS: typeof os;
+if (inNode) {
+  try {
+    const chalkLib = require(`${"chalk"}`);
+    if (chalkLib) chalk = new chalkLib.Instance();
+  } catch (e) {}
+  try {
+    utilInspect = require(`${"util"}`)?.inspect;
+  } catch (e) {}
+  //   try {
+  //     OS = require("os");
+  //   } catch (e) {}
+}
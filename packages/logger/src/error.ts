@@ -0,0 +1,151 @@
+import { chalk, inNode, utilInspect } from "./env";
+import { serialize } from "./json";
+import type { ErrorFormatOptions } from "./types";
+
+const NESTED_INDENT = "  ";
+
+const isFrame = (line: string) =>
+  /^\s+at\s/.test(line) || /^[^\s@]*@\S+:\d+/.test(line);
+
+const isDependencyFrame = (frame: string) =>
+  /[\\/]node_modules[\\/]|\(node:|\(internal\/|^\s+at node:/.test(frame);
+
+/**
+ * Stack frames of `error`, trimmed according to `options`
+ */
+export const getStackFrames = (
+  error: Error,
+  options: ErrorFormatOptions = {}
+) => {
+  const { frames: maxFrames, hideNodeModules } = options;
+  const frames = (error.stack ?? "")
+    .split("\n")
+    .filter(isFrame)
+    .map((frame) => frame.trim());
+  const shown = hideNodeModules
+    ? frames.filter((frame) => !isDependencyFrame(frame))
+    : frames;
+  if (maxFrames === false) return { frames: [], hidden: frames.length };
+  const kept = maxFrames === undefined ? shown : shown.slice(0, maxFrames);
+  return { frames: kept, hidden: frames.length - kept.length };
+};
+
+const getErrorCode = (error: Error) => {
+  const { code } = error as { code?: unknown };
+  return typeof code === "string" || typeof code === "number"
+    ? `${code}`
+    : undefined;
+};
+
+// Rendered in the error header or as nested errors
+const RENDERED_KEYS = ["name", "message", "stack", "code", "cause", "errors"];
+
+/**
+ * Own enumerable properties of `error` besides the rendered ones: `errno`, `syscall`, custom fields...
+ */
+const getExtraProperties = (error: Error) =>
+  Object.entries(error).filter(
+    ([key, value]) =>
+      !RENDERED_KEYS.includes(key) && key !== "catched" && value !== undefined
+  );
+
+/**
+ * Nested errors rendered after the error itself: `cause` chain, `AggregateError` errors
+ * and `catched` value of `@bigl/promises` PoolError
+ */
+const getNestedValues = (error: Error): [string, unknown][] => {
+  const nested: [string, unknown][] = [];
+  if ("cause" in error && error.cause !== undefined)
+    nested.push(["[cause]", error.cause]);
+  const { errors, catched } = error as { errors?: unknown; catched?: unknown };
+  if (Array.isArray(errors))
+    errors.forEach((e, index) => nested.push([`[errors][${index}]`, e]));
+  if (catched !== undefined) nested.push(["[catched]", catched]);
+  return nested;
+};
+
+/**
+ * Render `error` with its name, code, trimmed stack and nested errors
+ */
+export const formatError = (
+  error: Error,
+  options: ErrorFormatOptions = {},
+  color = true,
+  seen: WeakSet<object> = new WeakSet()
+): string => {
+  const paint = (style: "red" | "gray", text: string) =>
+    color ? chalk?.[style](text) ?? text : text;
+
+  seen.add(error);
+  const code = getErrorCode(error);
+  const header =
+    paint("red", `${error.name}${code ? ` [${code}]` : ""}`) +
+    (error.message ? `: ${error.message}` : "");
+  const { frames, hidden } = getStackFrames(error, options);
+  const lines = [
+    header,
+    ...frames.map((frame) => paint("gray", `    ${frame}`)),
+  ];
+  if (hidden && frames.length)
+    lines.push(paint("gray", `    ... ${hidden} more`));
+
+  const render = (value: unknown) => {
+    if (value instanceof Error)
+      return seen.has(value)
+        ? "[Circular]"
+        : formatError(value, options, color, seen);
+    if (inNode && utilInspect)
+      return utilInspect(value, { colors: color, depth: 4 });
+    return JSON.stringify(serialize(value)) ?? String(value);
+  };
+  for (const [key, value] of [
+    ...getExtraProperties(error),
+    ...getNestedValues(error),
+  ]) {
+    lines.push(
+      ...`${key}: ${render(value)}`
+        .split("\n")
+        .map((line) => NESTED_INDENT + line)
+    );
+  }
+  seen.delete(error);
+  return lines.join("\n");
+};
+
+/**
+ * JSON compatible description of `error`, with the same content as `formatError`
+ */
+export const describeError = (
+  error: Error,
+  options: ErrorFormatOptions = {},
+  seen: WeakSet<object> = new WeakSet()
+): Record<string, unknown> => {
+  seen.add(error);
+  const result: Record<string, unknown> = {
+    name: error.name,
+    message: error.message,
+  };
+  const code = getErrorCode(error);
+  if (code !== undefined) result.code = code;
+  for (const [k, v] of getExtraProperties(error)) {
+    const serialized = serialize(v);
+    if (serialized !== undefined) result[k] = serialized;
+  }
+
+  const { frames } = getStackFrames(error, options);
+  if (frames.length) result.stack = frames;
+
+  const describe = (value: unknown) =>
+    value instanceof Error
+      ? seen.has(value)
+        ? "[Circular]"
+        : describeError(value, options, seen)
+      : serialize(value);
+  const { errors, catched } = error as { errors?: unknown; catched?: unknown };
+  if ("cause" in error && error.cause !== undefined)
+    result.cause = describe(error.cause);
+  if (Array.isArray(errors)) result.errors = errors.map(describe);
+  if (catched !== undefined) result.catched = describe(catched);
+  seen.delete(error);
+  return result;
+};
@@ -0,0 +1,208 @@
+import type * as FS from "fs";
+import os from "os";
+import type * as Path from "path";
+import type * as Stream from "stream";
+import type * as Zlib from "zlib";
+import { inNode } from "./env";
+import { formatRecord, stripAnsi } from "./format";
+import { LEVEL_PARAMS, LogLevel } from "./levels";
+import type { LogFormat, LogRecord, LogTransport } from "./types";
+
+let fs: typeof FS | undefined;
+let path: typeof Path | undefined;
+let stream: typeof Stream | undefined;
+let zlib: typeof Zlib | undefined;
+if (inNode) {
+  try {
+    fs = require(`${"fs"}`);
+    path = require(`${"path"}`);
+    stream = require(`${"stream"}`);
+    zlib = require(`${"zlib"}`);
+  } catch (e) {}
+}
+
+const DEFAULT_MAX_FILES = 5;
+
+export type FileTransportOptions = {
+  path: string;
+  format?: LogFormat | ((record: LogRecord) => string);
+  /** Rotate when the file would exceed this size, in bytes */
+  maxSize?: number;
+  /** Rotate when the day changes */
+  daily?: boolean;
+  /** Number of rotated files to keep (default 5) */
+  maxFiles?: number;
+  /** Gzip rotated files (default true) */
+  compress?: boolean;
+};
+
+export interface FileTransport extends LogTransport {
+  readonly path: string;
+
+  rotate(): Promise<void>;
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
+
+const dayOf = (date: Date) =>
+  `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+class FileTransportImpl implements FileTransport {
+  readonly path: string;
+  private options: FileTransportOptions;
+
+  #handle?: FS.promises.FileHandle;
+  #size = 0;
+  #day?: string;
+
+  #pending: string[] = [];
+  #writing?: Promise<void>;
+  #rotateRequested = false;
+  #closed = false;
+
+  #exitHandler = () => this.#flushSync();
+
+  constructor(options: FileTransportOptions) {
+    if (!fs || !path || !stream || !zlib)
+      throw new Error("File transport can only be used in Node environment");
+    this.path = path.resolve(options.path);
+    this.options = options;
+    process.on("exit", this.#exitHandler);
+  }
+
+  write(record: LogRecord) {
+    if (this.#closed) return;
+    const { format } = this.options;
+    const line =
+      typeof format === "function"
+        ? format(record)
+        : formatRecord(record, format ?? "pretty", false);
+    this.#pending.push(stripAnsi(line) + os.EOL);
+    this.#drain();
+  }
+
+  rotate() {
+    this.#rotateRequested = true;
+    return this.#drain();
+  }
+
+  flush() {
+    return this.#drain();
+  }
+
+  async close() {
+    this.#closed = true;
+    await this.#drain();
+    await this.#handle?.close();
+    this.#handle = undefined;
+    process.off("exit", this.#exitHandler);
+  }
+
+  #drain() {
+    if (!this.#writing) {
+      this.#writing = this.#writePending().finally(() => {
+        this.#writing = undefined;
+      });
+    }
+    return this.#writing;
+  }
+
+  async #writePending() {
+    try {
+      while (this.#pending.length || this.#rotateRequested) {
+        const { maxSize, daily } = this.options;
+        const size = Buffer.byteLength(this.#pending.join(""));
+
+        await this.#open();
+        if (
+          this.#rotateRequested ||
+          (maxSize && this.#size && this.#size + size > maxSize) ||
+          (daily && this.#day !== dayOf(new Date()))
+        ) {
+          this.#rotateRequested = false;
+          await this.#rotate();
+        }
+
+        // Pending lines are only taken once the write is issued, so that
+        // an exit in the meantime still flushes them synchronously
+        const handle = await this.#open();
+        const data = this.#pending.join("");
+        this.#pending = [];
+        if (data) {
+          await handle.write(data);
+          this.#size += Buffer.byteLength(data);
+          this.#day = dayOf(new Date());
+        }
+      }
+    } catch (e) {
+      LEVEL_PARAMS[LogLevel.ERROR].methods[0](
+        `[file transport] ${e instanceof Error ? e.message : e}`
+      );
+    }
+  }
+
+  async #open() {
+    if (!this.#handle) {
+      await fs!.promises.mkdir(path!.dirname(this.path), { recursive: true });
+      const handle = await fs!.promises.open(this.path, "a");
+      const stat = await handle.stat();
+      this.#size = stat.size;
+      this.#day = dayOf(stat.size ? stat.mtime : new Date());
+      this.#handle = handle;
+    }
+    return this.#handle;
+  }
+
+  async #rotate() {
+    const maxFiles = this.options.maxFiles ?? DEFAULT_MAX_FILES;
+    const extension = this.options.compress ?? true ? ".gz" : "";
+    const generation = (index: number) => `${this.path}.${index}${extension}`;
+    const ignoreMissing = () => {};
+
+    await this.#handle?.close();
+    this.#handle = undefined;
+
+    if (maxFiles < 1) {
+      await fs!.promises.unlink(this.path).catch(ignoreMissing);
+      return;
+    }
+    await fs!.promises.unlink(generation(maxFiles)).catch(ignoreMissing);
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      await fs!.promises
+        .rename(generation(index), generation(index + 1))
+        .catch(ignoreMissing);
+    }
+
+    const rotated = `${this.path}.1`;
+    await fs!.promises.rename(this.path, rotated);
+    if (extension) {
+      await new Promise<void>((res, rej) =>
+        stream!.pipeline(
+          fs!.createReadStream(rotated),
+          zlib!.createGzip(),
+          fs!.createWriteStream(generation(1)),
+          (err) => (err ? rej(err) : res())
+        )
+      );
+      await fs!.promises.unlink(rotated);
+    }
+  }
+
+  #flushSync() {
+    if (!this.#pending.length) return;
+    const data = this.#pending.join("");
+    this.#pending = [];
+    try {
+      if (this.#handle) {
+        fs!.writeSync(this.#handle.fd, data);
+      } else {
+        fs!.mkdirSync(path!.dirname(this.path), { recursive: true });
+        fs!.appendFileSync(this.path, data);
+      }
+    } catch (e) {}
+  }
+}
+
+export function fileTransport(options: FileTransportOptions): FileTransport {
+  return new FileTransportImpl(options);
+}
@@ -0,0 +1,351 @@
+import type { InspectOptions } from "util";
+import { chalk, inNode, utilInspect } from "./env";
+import { describeError, formatError } from "./error";
+import { serialize, stringify } from "./json";
+import { LEVEL_PARAMS, LogLevel } from "./levels";
+import type {
+  DurationFormat,
+  ErrorFormatOptions,
+  LogCallerInfo,
+  LogFields,
+  LogFormat,
+  LoggerOptions,
+  LogParameters,
+  LogRecord,
+  PrefixSegment,
+  TimestampFormat,
+} from "./types";
+
+export const DEFAULT_INSPECT_OPTIONS: InspectOptions = {
+  depth: 5,
+  colors: true,
+};
+
+export const getNodePrefix = (
+  logLevel: LogLevel,
+  options: LoggerOptions,
+  scope?: string
+) => {
+  const { pad, color } = options;
+  const levelParams = LEVEL_PARAMS[logLevel];
+  let levelPrefix = (pad && levelParams.paddedLabel) || levelParams.label;
+  if (scope) levelPrefix += ` <${scope}>`;
+  if (inNode) {
+    if (color && chalk) {
+      let colorize = chalk;
+      if (levelParams.style?.color) {
+        colorize = colorize.keyword(levelParams.style.color);
+      }
+      if (levelParams.style?.backgroundColor)
+        colorize = colorize.bgKeyword(levelParams.style.backgroundColor);
+      return colorize(` ${levelPrefix} `);
+    } else {
+      return `[${levelPrefix}]`;
+    }
+  } else {
+    return "";
+  }
+};
+
+export const getBrowserPrefix = (
+  logLevel: LogLevel,
+  options: LoggerOptions,
+  scope?: string
+) => {
+  const { color, pad } = options;
+  const levelParams = LEVEL_PARAMS[logLevel];
+  let levelPrefix = (pad && levelParams.paddedLabel) || levelParams.label;
+  if (scope) levelPrefix += ` <${scope}>`;
+  return color ? [`%c${levelPrefix}`, levelParams.css!] : [`[${levelPrefix}]`];
+};
+
+export const getCallerDisplay = (caller: LogCallerInfo) => {
+  let stackDisplay =
+    caller.functionName ||
+    caller.fileName?.split("/").slice(-1).join("/") +
+      ":" +
+      caller.lineNumber +
+      ":" +
+      caller.columnNumber;
+  if (caller.functionName && caller.fileName)
+    stackDisplay +=
+      " @ " +
+      caller.fileName +
+      ":" +
+      caller.lineNumber +
+      ":" +
+      caller.columnNumber;
+  return stackDisplay;
+};
+
+const DEFAULT_TIMESTAMP_PATTERN = "YYYY-MM-DD HH:mm:ss.SSS";
+
+const DEFAULT_SEGMENTS: PrefixSegment[] = [
+  "level",
+  "scope",
+  "date",
+  "duration",
+  "caller",
+];
+
+export function formatTimestamp(
+  date: Date,
+  format: TimestampFormat = "local"
+): string {
+  if (typeof format === "function") return format(date);
+  switch (format) {
+    case "iso":
+      return date.toISOString();
+    case "epoch":
+      return `${date.valueOf()}`;
+    case "local":
+      format = DEFAULT_TIMESTAMP_PATTERN;
+  }
+  const pad = (n: number, length = 2) => `${n}`.padStart(length, "0");
+  return format.replace(/YYYY|MM|DD|HH|mm|ss|SSS/g, (token) => {
+    switch (token) {
+      case "YYYY":
+        return `${date.getFullYear()}`;
+      case "MM":
+        return pad(date.getMonth() + 1);
+      case "DD":
+        return pad(date.getDate());
+      case "HH":
+        return pad(date.getHours());
+      case "mm":
+        return pad(date.getMinutes());
+      case "ss":
+        return pad(date.getSeconds());
+      default:
+        return pad(date.getMilliseconds(), 3);
+    }
+  });
+}
+
+export function formatDuration(
+  durationMs: number,
+  format: DurationFormat = "s"
+) {
+  if (format === "ms" || (format === "auto" && durationMs < 1000))
+    return `${Math.round(durationMs)}ms`;
+  return `${(durationMs / 1000).toFixed(3)}s`;
+}
+
+export function getDatePrefix(date: Date, format?: TimestampFormat) {
+  return `[${formatTimestamp(date, format)}]`;
+}
+
+export function getDurationPrefix(
+  durationMs: number,
+  format?: DurationFormat
+): string;
+export function getDurationPrefix(since: Date, to?: Date): string;
+export function getDurationPrefix(
+  sinceOrDurationMs: Date | number,
+  toOrFormat?: Date | DurationFormat
+) {
+  const duration =
+    typeof sinceOrDurationMs === "number"
+      ? sinceOrDurationMs
+      : ((toOrFormat as Date | undefined) ?? new Date()).valueOf() -
+        sinceOrDurationMs.valueOf();
+  const format = typeof toOrFormat === "string" ? toOrFormat : undefined;
+  return `[+${formatDuration(duration, format)}]`;
+}
+
+export const toJSONRecord = (record: LogRecord) => {
+  const msg: string[] = [];
+  const fields: Record<string, unknown> = {
+    ...(record.fields && (serialize(record.fields) as LogFields)),
+  };
+  const errors: unknown[] = [];
+  for (const arg of record.args) {
+    if (typeof arg === "string") {
+      msg.push(arg);
+    } else if (arg instanceof Error) {
+      errors.push(describeError(arg, record.options.errors));
+    } else if (
+      arg !== null &&
+      typeof arg === "object" &&
+      !Array.isArray(arg) &&
+      !(arg instanceof Map) &&
+      !(arg instanceof Set) &&
+      !(arg instanceof Date)
+    ) {
+      Object.assign(fields, serialize(arg));
+    } else {
+      const serialized = serialize(arg);
+      msg.push(
+        typeof serialized === "string"
+          ? serialized
+          : JSON.stringify(serialized) ?? String(serialized)
+      );
+    }
+  }
+  if (errors.length) fields.error = errors.length > 1 ? errors : errors[0];
+  return {
+    time: record.timestamp.toISOString(),
+    level: record.level,
+    levelName: LEVEL_PARAMS[record.level]?.label,
+    scope: record.scope,
+    msg: msg.join(" "),
+    fields,
+    caller: record.caller,
+  };
+};
+
+const ANSI_REGEX = new RegExp(
+  [
+    "[\\u001B\\u009B][[\\]()#;?]*(?:(?:(?:(?:;[-a-zA-Z\\d\\/#&.:=?%@~_]+)*|[a-zA-Z\\d]+(?:;[-a-zA-Z\\d\\/#&.:=?%@~_]*)*)?\\u0007)",
+    "(?:(?:\\d{1,4}(?:;\\d{0,4})*)?[\\dA-PR-TZcf-nq-uy=><~]))",
+  ].join("|"),
+  "g"
+);
+
+export const stripAnsi = (str: string) => str.replace(ANSI_REGEX, "");
+
+/**
+ * Prefix segments of a record (level & scope, date, duration, caller), in
+ * the formatter order
+ *
+ * In browser, styled segments are joined in a single `%c` format string
+ * followed by their CSS
+ */
+export const getRecordPrefix = (
+  record: LogRecord,
+  options: LoggerOptions = record.options
+): string[] => {
+  const { formatter } = options;
+  const segments = formatter?.segments ?? DEFAULT_SEGMENTS;
+  const prefix: string[] = [];
+  const styles: string[] = [];
+  segments.forEach((segment, index) => {
+    switch (segment) {
+      case "level": {
+        const scope =
+          segments[index + 1] === "scope" ? record.scope : undefined;
+        if (inNode) {
+          prefix.push(getNodePrefix(record.level, options, scope));
+        } else {
+          const [text, style] = getBrowserPrefix(record.level, options, scope);
+          prefix.push(text);
+          if (style) styles.push(style);
+        }
+        break;
+      }
+      case "scope":
+        if (record.scope && segments[index - 1] !== "level")
+          prefix.push(`<${record.scope}>`);
+        break;
+      case "date":
+        if (options.date)
+          prefix.push(getDatePrefix(record.timestamp, formatter?.timestamp));
+        break;
+      case "duration":
+        if (record.elapsed !== undefined)
+          prefix.push(getDurationPrefix(record.elapsed, formatter?.duration));
+        break;
+      case "caller":
+        if (record.caller) {
+          const stackDisplay = getCallerDisplay(record.caller);
+          if (stackDisplay) prefix.push(`(${stackDisplay})`);
+        }
+        break;
+    }
+  });
+  return styles.length ? [prefix.join(" "), ...styles] : prefix;
+};
+
+/**
+ * `key=value` suffixes of the record bound fields
+ */
+export const getFieldsSuffix = (fields?: LogFields) =>
+  Object.entries(fields ?? {}).map(([key, value]) =>
+    typeof value === "string" && !/[\s"=]/.test(value)
+      ? `${key}=${value}`
+      : `${key}=${stringify(value)}`
+  );
+
+export const inspectArgs = (
+  args: LogParameters,
+  inspect: InspectOptions = DEFAULT_INSPECT_OPTIONS,
+  errors: ErrorFormatOptions = {}
+): LogParameters => {
+  const colors = inspect.colors ?? DEFAULT_INSPECT_OPTIONS.colors;
+  if (!inNode || !utilInspect)
+    return args.map((a) =>
+      a instanceof Error ? formatError(a, errors, false) : a
+    );
+  try {
+    return args.map((a) =>
+      typeof a === "string"
+        ? a
+        : a instanceof Error
+        ? formatError(a, errors, colors)
+        : utilInspect(a, inspect)
+    );
+  } catch (e) {
+    return args;
+  }
+};
+
+/**
+ * Indentation of grouped records, box-drawing guides or plain spaces
+ */
+export const getGroupIndent = (depth: number, guides: boolean) =>
+  (guides ? (chalk?.gray("│") ?? "│") + " " : "  ").repeat(depth);
+
+/**
+ * Indent `args` by `depth` groups, including their continuation lines
+ */
+export const indentArgs = (
+  args: LogParameters,
+  depth = 0,
+  guides = false
+): LogParameters => {
+  if (!depth || !inNode) return args;
+  const indent = getGroupIndent(depth, guides);
+  return args.map((a, index) =>
+    typeof a === "string"
+      ? (index ? "" : indent) + a.replace(/\n/g, "\n" + indent)
+      : a
+  );
+};
+
+/**
+ * Format a record as a single string, in the given format
+ */
+export const formatRecord = (
+  record: LogRecord,
+  format: LogFormat = record.options.format ?? "pretty",
+  color: boolean = record.options.color
+) => {
+  if (format === "json") return JSON.stringify(toJSONRecord(record));
+  if (record.options.formatter?.line) {
+    const line = record.options.formatter.line(record);
+    const text = Array.isArray(line)
+      ? inspectArgs(
+          line,
+          { ...record.options.inspect, colors: color },
+          record.options.errors
+        ).join(" ")
+      : line;
+    return color ? text : stripAnsi(text);
+  }
+  const options = {
+    ...record.options,
+    color,
+    inspect: { ...record.options.inspect, colors: color },
+  };
+  const line = [
+    ...getRecordPrefix(record, options),
+    ...indentArgs(
+      inspectArgs(record.args, options.inspect, options.errors),
+      record.depth
+    ),
+    ...getFieldsSuffix(record.fields),
+  ]
+    .map((a) => `${a}`)
+    .join(" ");
+  return color ? line : stripAnsi(line);
+};
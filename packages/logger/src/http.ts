@@ -0,0 +1,216 @@
+import { inBrowser, inNode } from "./env";
+import { toJSONRecord } from "./format";
+import { LEVEL_PARAMS, LogLevel } from "./levels";
+import type { LogRecord, LogTransport } from "./types";
+
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const DEFAULT_MAX_QUEUE_SIZE = 1000;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+
+export type HttpTransportOptions = {
+  url: string;
+  headers?: Record<string, string>;
+  /** Only ship records of this level or more severe */
+  level?: LogLevel;
+  /** Send a batch once this many records are queued (default 50) */
+  batchSize?: number;
+  /** Send queued records after this delay, in ms (default 5000) */
+  flushInterval?: number;
+  /** Drop the oldest records beyond this queue size (default 1000) */
+  maxQueueSize?: number;
+  /** Attempts after a failed request (default 3) */
+  retries?: number;
+  /** Delay before the first retry, doubled on each attempt, in ms (default 1000) */
+  retryDelay?: number;
+  /** Request body of a batch (default JSON array of JSON records) */
+  format?: (records: LogRecord[]) => string;
+};
+
+/**
+ * In Node, queued records are flushed when the event loop empties (`beforeExit`), including
+ * pending retries. `process.exit()` skips it: await `flush()` or `close()` before calling it.
+ */
+export interface HttpTransport extends LogTransport {
+  readonly url: string;
+  /** Number of records dropped because the queue was full or a batch could not be sent */
+  readonly dropped: number;
+
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
+
+const defaultFormat = (records: LogRecord[]) =>
+  JSON.stringify(records.map(toJSONRecord));
+
+const wait = (ms: number) =>
+  new Promise<void>((res) => {
+    const timeout = setTimeout(res, ms);
+    if (typeof timeout === "object") timeout.unref?.();
+  });
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`HTTP ${status} ${statusText}`);
+    this.status = status;
+  }
+
+  get retryable() {
+    return this.status >= 500 || this.status === 429 || this.status === 408;
+  }
+}
+
+class HttpTransportImpl implements HttpTransport {
+  readonly url: string;
+  private options: HttpTransportOptions;
+
+  #queue: LogRecord[] = [];
+  #dropped = 0;
+  #sending?: Promise<void>;
+  #flushTimeout?: ReturnType<typeof setTimeout>;
+  #closed = false;
+
+  #exitHandler = () => {
+    if (!this.#queue.length && !this.#sending) return;
+    // Retry delays are unref'd, keep the process alive until the last batches are sent
+    const keepAlive = setInterval(() => {}, DEFAULT_RETRY_DELAY);
+    this.flush().finally(() => clearInterval(keepAlive));
+  };
+  #pageHideHandler = () => this.#beacon();
+  #visibilityHandler = () => {
+    if (document.visibilityState === "hidden") this.#beacon();
+  };
+
+  constructor(options: HttpTransportOptions) {
+    if (typeof fetch === "undefined")
+      throw new Error("HTTP transport requires a global fetch");
+    this.url = options.url;
+    this.options = options;
+    if (inBrowser) {
+      window.addEventListener("pagehide", this.#pageHideHandler);
+      document.addEventListener("visibilitychange", this.#visibilityHandler);
+    } else if (inNode) {
+      process.on("beforeExit", this.#exitHandler);
+    }
+  }
+
+  get dropped() {
+    return this.#dropped;
+  }
+
+  write(record: LogRecord) {
+    const { level, maxQueueSize = DEFAULT_MAX_QUEUE_SIZE } = this.options;
+    if (this.#closed) return;
+    if (level !== undefined && record.level > level) return;
+
+    this.#queue.push(record);
+    if (this.#queue.length > maxQueueSize) {
+      this.#dropped += this.#queue.length - maxQueueSize;
+      this.#queue.splice(0, this.#queue.length - maxQueueSize);
+    }
+
+    if (this.#queue.length >= (this.options.batchSize ?? DEFAULT_BATCH_SIZE)) {
+      this.flush();
+    } else if (!this.#flushTimeout) {
+      this.#flushTimeout = setTimeout(
+        () => this.flush(),
+        this.options.flushInterval ?? DEFAULT_FLUSH_INTERVAL
+      );
+      if (typeof this.#flushTimeout === "object") this.#flushTimeout.unref?.();
+    }
+  }
+
+  flush() {
+    clearTimeout(this.#flushTimeout);
+    this.#flushTimeout = undefined;
+    if (!this.#sending) {
+      this.#sending = this.#sendQueued().finally(() => {
+        this.#sending = undefined;
+      });
+    }
+    return this.#sending;
+  }
+
+  async close() {
+    this.#closed = true;
+    await this.flush();
+    if (inBrowser) {
+      window.removeEventListener("pagehide", this.#pageHideHandler);
+      document.removeEventListener("visibilitychange", this.#visibilityHandler);
+    } else if (inNode) {
+      process.off("beforeExit", this.#exitHandler);
+    }
+  }
+
+  async #sendQueued() {
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    while (this.#queue.length) {
+      const batch = this.#queue.splice(0, batchSize);
+      try {
+        await this.#send(batch);
+      } catch (e) {
+        this.#dropped += batch.length;
+        this.#reportError(e);
+      }
+    }
+  }
+
+  async #send(batch: LogRecord[]) {
+    const {
+      headers,
+      format = defaultFormat,
+      retries = DEFAULT_RETRIES,
+      retryDelay = DEFAULT_RETRY_DELAY,
+    } = this.options;
+    const body = format(batch);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetch(this.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body,
+          keepalive: inBrowser,
+        });
+        if (!response.ok)
+          throw new HttpError(response.status, response.statusText);
+        return;
+      } catch (e) {
+        if (attempt >= retries || (e instanceof HttpError && !e.retryable))
+          throw e;
+        await wait(retryDelay * 2 ** attempt);
+      }
+    }
+  }
+
+  /**
+   * Last chance delivery when the page is hidden, `sendBeacon` survives the page unload
+   */
+  #beacon() {
+    if (!this.#queue.length || typeof navigator?.sendBeacon !== "function")
+      return;
+    clearTimeout(this.#flushTimeout);
+    this.#flushTimeout = undefined;
+    const batch = this.#queue.splice(0, this.#queue.length);
+    const body = (this.options.format ?? defaultFormat)(batch);
+    const sent = navigator.sendBeacon(
+      this.url,
+      new Blob([body], { type: "application/json" })
+    );
+    if (!sent) this.#dropped += batch.length;
+  }
+
+  #reportError(e: unknown) {
+    // Raw console method: a logger call would ship the failure again
+    LEVEL_PARAMS[LogLevel.ERROR].methods[0](
+      `[http transport] ${e instanceof Error ? e.message : e}`
+    );
+  }
+}
+
+export function httpTransport(options: HttpTransportOptions): HttpTransport {
+  return new HttpTransportImpl(options);
+}
@@ -1,97 +1,212 @@
-import type { Chalk } from "chalk";
 import os from "os";
 import { WriteStream } from "tty";
-import type { inspect, InspectOptions } from "util";
-
-// const inNode = (() => {
-//   try {
-//     const proc = require("process");
-//     return proc?.versions != null && proc?.versions?.node != null;
-//   } catch (e) {
-//     return false;
-//   }
-// })();
-const inNode =
-  typeof process !== "undefined" &&
-  process?.versions != null &&
-  process?.versions?.node != null;
-const inBrowser =
-  typeof window !== "undefined" && typeof window.document !== "undefined";
-
-let chalk: Chalk | undefined;
-let utilInspect: typeof inspect;
-// let OS: typeof os;
-if (inNode) {
-  try {
-    const chalkLib = require(`${"chalk"}`);
-    if (chalkLib) chalk = new chalkLib.Instance();
-  } catch (e) {}
-  try {
-    utilInspect = require(`${"util"}`)?.inspect;
-  } catch (e) {}
-  //   try {
-  //     OS = require("os");
-  //   } catch (e) {}
-}
-
-type LogParameters = Parameters<typeof console.log>;
-
-export enum LogLevel {
-  EMERGENCY = 0,
-  ALERT = 1,
-  CRITICAL = 2,
-  ERROR = 3,
-  WARNING = 4,
-  NOTICE = 5,
-  INFO = 6,
-  VERBOSE = 7,
-  DEBUG = 8,
-  WHO_CARES = 9,
-}
-
-type LogMethod = {
+import type * as Stream from "stream";
+import type { InspectOptions } from "util";
+import {
+  EnvironmentConfig,
+  getScopePatternOptions,
+  LoggerConfig,
+  readConfigFile,
+  readEnvironmentConfig,
+  ResolvedConfig,
+  resolveLoggerConfig,
+  SCOPE_SEPARATOR,
+  watchConfigFile,
+} from "./config";
+import { getCallerInfo } from "./caller";
+import { CaptureTransport, captureTransport, LogQuery } from "./capture";
+import { getLogContext } from "./context";
+import {
+  mergeRedactOptions,
+  RedactOptions,
+  redactArgs,
+  redactFields,
+} from "./redact";
+import {
+  chalk,
+  inBrowser,
+  inCI,
+  inGithubActions,
+  inNode,
+  utilInspect,
+} from "./env";
+import {
+  DEFAULT_INSPECT_OPTIONS,
+  formatDuration,
+  getDatePrefix,
+  getDurationPrefix,
+  getNodePrefix,
+  getFieldsSuffix,
+  getGroupIndent,
+  getRecordPrefix,
+  indentArgs,
+  inspectArgs,
+  stripAnsi,
+  toJSONRecord,
+} from "./format";
+import {
+  BUILTIN_LEVEL_METHODS,
+  defineLevel,
+  LevelDefinition,
+  LevelMethodName,
+  LEVEL_METHODS,
+  LEVEL_PARAMS,
+  LogLevel,
+} from "./levels";
+import type {
+  ErrorFormatOptions,
+  LogFields,
+  LogFormat,
+  LogFormatter,
+  LoggerOptions,
+  LogParameters,
+  LogRecord,
+  LogTransport,
+} from "./types";
+
+export { LogLevel } from "./levels";
+export type {
+  ConsoleMethodName,
+  LevelDefinition,
+  LogLevelStyle,
+} from "./levels";
+export type {
+  DurationFormat,
+  ErrorFormatOptions,
+  LogCallerInfo,
+  LogFields,
+  LogFormat,
+  LogFormatter,
+  PrefixSegment,
+  TimestampFormat,
+  LoggerOptions,
+  LogRecord,
+  LogTransport,
+} from "./types";
+export {
+  formatDuration,
+  formatRecord,
+  formatTimestamp,
+  stripAnsi,
+  toJSONRecord,
+} from "./format";
+export {
+  parseStackFrame,
+  registerCallerWrapper,
+  resolveSourceLocation,
+} from "./caller";
+export type { CallerWrapper } from "./caller";
+export { captureTransport } from "./capture";
+export type { LoggerConfig, LoggerConfigOptions } from "./config";
+export type { CapturedEntry, CaptureTransport, LogQuery } from "./capture";
+export { getLogContext, runWithLogContext } from "./context";
+export { describeError, formatError } from "./error";
+export { fileTransport } from "./file";
+export type { FileTransport, FileTransportOptions } from "./file";
+export { httpTransport } from "./http";
+export type { HttpTransport, HttpTransportOptions } from "./http";
+export { serialize, stringify } from "./json";
+export { REDACT_PATTERNS } from "./redact";
+export type { RedactCensor, RedactOptions } from "./redact";
+export {
+  formatSyslog,
+  getSyslogSeverity,
+  SYSLOG_FACILITIES,
+  syslogTransport,
+} from "./syslog";
+export type {
+  SyslogFacility,
+  SyslogFormatOptions,
+  SyslogTransport,
+  SyslogTransportOptions,
+} from "./syslog";
+
+export type LogMethod = {
   (...args: LogParameters): void;
   spin: (
     message: string,
     options?: Omit<SpinnerOptions, "text">
   ) => LoggerSpinner;
+  progress: (
+    message: string,
+    options: Omit<ProgressOptions, "text">
+  ) => LoggerProgress;
+  tasks: (tasks: LoggerTask[], options?: TasksOptions) => Promise<void>;
 };
 
-const LEVEL_METHODS = {
-  emerg: LogLevel.EMERGENCY,
-  alert: LogLevel.ALERT,
-  crit: LogLevel.CRITICAL,
-  error: LogLevel.ERROR,
-  warn: LogLevel.WARNING,
-  notice: LogLevel.NOTICE,
-  info: LogLevel.INFO,
-  verb: LogLevel.VERBOSE,
-  debug: LogLevel.DEBUG,
-  wth: LogLevel.WHO_CARES,
-};
+/**
+ * Methods of levels added with `registerLevel()`, to be declared by module augmentation:
+ *
+ * ```ts
+ * declare module "@bigl/logger" {
+ *   interface CustomLevelMethods {
+ *     success: LogMethod;
+ *   }
+ * }
+ * ```
+ */
+export interface CustomLevelMethods {}
 
 type GenericLogger = {
-  [key in keyof typeof LEVEL_METHODS]: LogMethod;
-} & {
-  log: (level: LogLevel, ...args: LogParameters) => void;
-  getPrefix(level: LogLevel): string;
-};
+  [key in LevelMethodName]: LogMethod;
+} & CustomLevelMethods & {
+    log: (level: LogLevel, ...args: LogParameters) => void;
+    getPrefix(level: LogLevel): string;
+  };
 
-type LoggerOptions = {
-  enabled: boolean;
-  stack: boolean;
-  date: boolean;
-  duration: boolean;
-  level: LogLevel | undefined;
-  pad: boolean;
-  color: boolean;
+export type TimerOptions = {
+  /** Level of the elapsed time log (default `debug`) */
+  level?: LogLevel;
+  /** Log a warning instead when the elapsed time exceeds this duration, in ms */
+  threshold?: number;
+};
 
-  inspect: InspectOptions;
+type LoggerTimer = { started: number; options: TimerOptions };
+
+const getTimerLog = (
+  label: string,
+  elapsed: number,
+  { level = LogLevel.DEBUG, threshold }: TimerOptions
+): [LogLevel, ...LogParameters] =>
+  threshold !== undefined && elapsed > threshold
+    ? [
+        LogLevel.WARNING,
+        label,
+        getDurationPrefix(elapsed),
+        `exceeded ${formatDuration(threshold, "auto")}`,
+      ]
+    : [level, label, getDurationPrefix(elapsed)];
+
+const PATCHED_CONSOLE_METHODS = [
+  "log",
+  "info",
+  "debug",
+  "warn",
+  "error",
+  "trace",
+  "table",
+  "dir",
+] as const;
+
+type ConsolePatch = {
+  logger: LoggerBase;
+  saved: Partial<Pick<Console, (typeof PATCHED_CONSOLE_METHODS)[number]>>;
 };
 
-const DEFAULT_INSPECT_OPTIONS: InspectOptions = {
-  depth: 5,
-  colors: true,
+// Patches stack: the last patching logger receives the console calls
+const consolePatches: ConsolePatch[] = [];
+
+const renderTable = (data: unknown, columns?: string[]) => {
+  const { Writable }: typeof Stream = require(`${"stream"}`);
+  let output = "";
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      output += chunk;
+      callback();
+    },
+  });
+  new console.Console(stream).table(data, columns);
+  return output.replace(/\n$/, "");
 };
 
 export interface Logger extends GenericLogger, LoggerOptions {
@@ -100,23 +215,146 @@ export interface Logger extends GenericLogger, LoggerOptions {
   once(key?: string): GenericLogger;
   limit(count: number, key?: string): GenericLogger;
   limit(key: string): GenericLogger;
+  /**
+   * At most `count` calls per `windowMs` window, logging a summary of suppressed calls when the window rolls over
+   */
+  throttle(count: number, windowMs: number, key?: string): GenericLogger;
+  /**
+   * Only log a `rate` (0 to 1) proportion of calls
+   */
+  sample(rate: number): GenericLogger;
+
+  registerTransport(transport: LogTransport): void;
+  unregisterTransport(transport: LogTransport): void;
+
+  /**
+   * Lightweight logger adding `fields` to every record, without registering a new scope
+   */
+  with(fields: LogFields): Logger;
+
+  /**
+   * Start a timer, logged with its elapsed time by `timeEnd(label)`
+   */
+  time(label: string, options?: TimerOptions): void;
+  /**
+   * Log and return the elapsed time of the `label` timer
+   */
+  timeEnd(label: string): number | undefined;
+  /**
+   * Log the elapsed time of `fn`, or its failure at error level
+   */
+  measure<T>(
+    label: string,
+    fn: () => T | Promise<T>,
+    options?: TimerOptions
+  ): Promise<T>;
+  /**
+   * Log the timers started and never ended, returns their labels
+   */
+  reportTimers(level?: LogLevel): string[];
+
+  /**
+   * Log `label` and indent the following logs of this logger until `groupEnd()`
+   */
+  group(label: string): void;
+  /**
+   * Log `label` and indent the logs of this logger while `fn` runs
+   */
+  group<T>(label: string, fn: () => T | Promise<T>): Promise<T>;
+  groupEnd(): void;
 }
 
 export interface RootLogger extends Logger {
   scope(scopeName: string, options?: Partial<LoggerOptions>): ScopeLogger;
 
+  /**
+   * Route `console` methods to this logger until `unpatch()`
+   */
   patch(): void;
+  /**
+   * Restore the `console` methods replaced by `patch()`
+   */
   unpatch(): void;
+
+  /**
+   * Apply a declarative config at once: root options over the defaults, and options of the listed scopes.
+   * Environment variables keep precedence.
+   *
+   * Root options set in code stay under the config ones, `formatter`, `errors`, `inspect` and `redact`
+   * being merged with them. Each call, as a reload, drops the options of the previous config and
+   * resets the listed scopes to their creation options.
+   */
+  configure(config: LoggerConfig): void;
+  /**
+   * Apply the JSON config file at `path`, optionally reloaded on changes or on a signal
+   */
+  loadConfig(path: string, options?: LoadConfigOptions): LoggerConfigWatcher;
+
+  /**
+   * Registered scopes, with their computed options
+   */
+  listScopes(): ScopeInfo[];
+  /**
+   * Restore the options given at scope creation, with config and environment options.
+   * Returns false if the scope is not registered
+   */
+  resetScope(scopeName: string): boolean;
+  /**
+   * Unregister a scope and its nested scopes, returns false if the scope is not registered
+   */
+  removeScope(scopeName: string): boolean;
+
+  on(event: ScopeEvent, callback: (scope: ScopeLogger) => void): void;
+  off(event: ScopeEvent, callback: (scope: ScopeLogger) => void): void;
+}
+
+type ScopeEvent = "create" | "remove";
+
+export type ScopeInfo = {
+  name: string;
+  logger: ScopeLogger;
+  options: LoggerOptions;
+};
+
+type LoadConfigOptions = {
+  /** Reload the config when the file changes */
+  watch?: boolean;
+  /** Reload the config on this signal, `true` for `SIGHUP` */
+  signal?: boolean | NodeJS.Signals;
+};
+
+export interface LoggerConfigWatcher {
+  readonly path: string;
+
+  /**
+   * Read and apply the config file again, keeping the current config if it is invalid
+   */
+  reload(): void;
+  close(): void;
 }
 
 export interface ScopeLogger extends Logger {
   readonly scope: string;
+
+  /**
+   * Route `console` methods to this scope until `unpatch()`
+   */
+  patch(): void;
+  unpatch(): void;
+
+  /**
+   * Nested `parent:child` scope, inheriting this scope options
+   */
+  subscope(scopeName: string, options?: Partial<LoggerOptions>): ScopeLogger;
 }
 
 type LoggerRegistry = {
   root: RootLoggerInstance;
   scopes: { [key: string]: ScopeLoggerInstance | undefined };
   exclusive?: Logger;
+  environment: EnvironmentConfig;
+  config?: ResolvedConfig;
+  listeners: Partial<Record<ScopeEvent, Set<(scope: ScopeLogger) => void>>>;
 };
 
 const DEFAULT_LOGGER_OPTIONS: LoggerOptions = {
@@ -128,12 +366,22 @@ const DEFAULT_LOGGER_OPTIONS: LoggerOptions = {
   duration: false,
   pad: inNode && process.stdout.isTTY,
   color: true,
+  format: undefined,
+  formatter: {},
+  redact: undefined,
+  errors: {},
+  dedup: false,
 
   inspect: DEFAULT_INSPECT_OPTIONS,
 };
 
 abstract class LoggerBase implements Logger {
   options: LoggerOptions;
+  parent?: LoggerBase;
+  fields?: LogFields;
+  transports: Set<LogTransport> = new Set();
+  timers: Map<string, LoggerTimer> = new Map();
+  groups: string[] = [];
   lastLog?: number;
 
   private static createLogMethod = (
@@ -157,9 +405,41 @@ abstract class LoggerBase implements Logger {
       printBuffer();
       return spinner;
     };
+    logFunction.progress = function (
+      message: string,
+      options: Omit<ProgressOptions, "text">
+    ) {
+      if (inBrowser)
+        throw new Error(".progress() cannot be used in browser environment");
+      const progress = new ProgressImpl(logger, level, {
+        ...options,
+        text: message,
+      });
+      progress.start();
+      printBuffer();
+      return progress;
+    };
+    logFunction.tasks = function (tasks: LoggerTask[], options?: TasksOptions) {
+      return new TaskListImpl(logger, level, tasks, options).run();
+    };
     return logFunction;
   };
 
+  static defineLevelMethod(method: string, level: LogLevel) {
+    const logMethods = new WeakMap<LoggerBase, LogMethod>();
+    Object.defineProperty(LoggerBase.prototype, method, {
+      configurable: true,
+      get(this: LoggerBase) {
+        let logMethod = logMethods.get(this);
+        if (!logMethod) {
+          logMethod = LoggerBase.createLogMethod(this, level);
+          logMethods.set(this, logMethod);
+        }
+        return logMethod;
+      },
+    });
+  }
+
   #limits: { [key: string]: GenericLogger } = {};
 
   #limitedProxy(count: number): GenericLogger {
@@ -173,6 +453,76 @@ abstract class LoggerBase implements Logger {
     });
   }
 
+  #throttles: { [key: string]: GenericLogger } = {};
+
+  #throttledProxy(count: number, windowMs: number, key: string): GenericLogger {
+    let windowStart = 0,
+      windowCount = 0,
+      suppressed = 0,
+      suppressedLevel: LogLevel | undefined,
+      summaryTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const logSummary = () => {
+      clearTimeout(summaryTimeout);
+      summaryTimeout = undefined;
+      if (inNode) process.off("exit", logSummary);
+      if (suppressed && suppressedLevel !== undefined) {
+        this.log(
+          suppressedLevel,
+          `suppressed ${suppressed} messages from key ${key} in the last ${
+            windowMs / 1000
+          }s`
+        );
+      }
+      suppressed = 0;
+      suppressedLevel = undefined;
+    };
+
+    return new Proxy(this, {
+      get(target, prop) {
+        if (typeof prop === "string" && prop in LEVEL_METHODS) {
+          const now = Date.now();
+          if (now - windowStart >= windowMs) {
+            logSummary();
+            windowStart = now;
+            windowCount = 0;
+          }
+          if (++windowCount > count) {
+            suppressed++;
+            suppressedLevel = Math.min(
+              suppressedLevel ?? LEVEL_METHODS[prop],
+              LEVEL_METHODS[prop]
+            );
+            if (!summaryTimeout) {
+              summaryTimeout = setTimeout(
+                logSummary,
+                windowStart + windowMs - now
+              );
+              if (typeof summaryTimeout === "object") summaryTimeout.unref?.();
+              // The summary timeout does not keep the process alive, log it at exit
+              if (inNode) process.once("exit", logSummary);
+            }
+            return () => {};
+          }
+        }
+        const method = target[prop as keyof typeof target];
+        return method;
+      },
+    });
+  }
+
+  #samplers: { [rate: number]: GenericLogger } = {};
+
+  #sampledProxy(rate: number): GenericLogger {
+    return new Proxy(this, {
+      get(target, prop) {
+        if (prop in LEVEL_METHODS && Math.random() >= rate) return () => {};
+        const method = target[prop as keyof typeof target];
+        return method;
+      },
+    });
+  }
+
   readonly emerg!: LogMethod;
   readonly alert!: LogMethod;
   readonly crit!: LogMethod;
@@ -186,12 +536,21 @@ abstract class LoggerBase implements Logger {
 
   constructor(options: Partial<LoggerOptions> = {}) {
     this.options = { ...DEFAULT_LOGGER_OPTIONS, ...options };
-    for (const [method, level] of Object.entries(LEVEL_METHODS)) {
+    for (const [method, level] of Object.entries(BUILTIN_LEVEL_METHODS)) {
       // ! Bad LAlex ! You should never do that
       this[method as "emerg"] = LoggerBase.createLogMethod(this, level);
     }
   }
 
+  /**
+   * Forget the `once`, `limit`, `throttle` and `sample` loggers of every call site
+   */
+  resetCallLimits() {
+    this.#limits = {};
+    this.#throttles = {};
+    this.#samplers = {};
+  }
+
   once(key?: string): GenericLogger {
     return this.limit(1, key || getCallerLimitKey());
   }
@@ -215,12 +574,170 @@ abstract class LoggerBase implements Logger {
     // throw new Error("Method not implemented.");
   }
 
+  registerTransport(transport: LogTransport) {
+    this.transports.add(transport);
+  }
+
+  unregisterTransport(transport: LogTransport) {
+    this.transports.delete(transport);
+  }
+
+  with(fields: LogFields): Logger {
+    return new BoundLoggerInstance(this, fields);
+  }
+
+  throttle(count: number, windowMs: number, key?: string): GenericLogger {
+    key ??= getCallerLimitKey();
+    if (key === undefined) throw new Error("Invalid key");
+    return (this.#throttles[key] ??= this.#throttledProxy(
+      count,
+      windowMs,
+      key.trim()
+    ));
+  }
+
+  sample(rate: number): GenericLogger {
+    return (this.#samplers[rate] ??= this.#sampledProxy(rate));
+  }
+
+  patch() {
+    if (consolePatches.some((p) => p.logger === this)) return;
+    const saved: ConsolePatch["saved"] = {};
+    for (const method of PATCHED_CONSOLE_METHODS)
+      Object.assign(saved, { [method]: console[method] });
+    consolePatches.push({ logger: this, saved });
+    const logger = this;
+
+    console.log = console.info = (...args: LogParameters) =>
+      this.logAtLevel(LogLevel.INFO, ...args);
+    console.debug = (...args: LogParameters) =>
+      this.logAtLevel(LogLevel.DEBUG, ...args);
+    console.warn = (...args: LogParameters) =>
+      this.logAtLevel(LogLevel.WARNING, ...args);
+    // The original console.trace of error levels writes through console.error
+    console.error = (...args: LogParameters) =>
+      writingConsole
+        ? saved.error?.(...args)
+        : this.logAtLevel(LogLevel.ERROR, ...args);
+    console.trace = function trace(...args: LogParameters) {
+      const error = new Error(
+        args
+          .map((a) =>
+            typeof a === "string" || !inNode ? `${a}` : utilInspect(a)
+          )
+          .join(" ")
+      );
+      error.name = "Trace";
+      Error.captureStackTrace?.(error, trace);
+      logger.logAtLevel(LogLevel.DEBUG, error);
+    };
+    if (inNode) {
+      console.table = (data: unknown, columns?: string[]) =>
+        this.logAtLevel(LogLevel.INFO, renderTable(data, columns));
+      console.dir = (item: unknown, options?: InspectOptions) =>
+        this.logAtLevel(
+          LogLevel.INFO,
+          options
+            ? utilInspect(item, { ...computeOptions(this).inspect, ...options })
+            : item
+        );
+    }
+  }
+
+  unpatch() {
+    const index = consolePatches.findIndex((p) => p.logger === this);
+    if (index < 0) return;
+    const [{ saved }] = consolePatches.splice(index, 1);
+    // A later patch now restores the methods this one had replaced
+    if (consolePatches[index]) consolePatches[index].saved = saved;
+    else Object.assign(console, saved);
+  }
+
+  time(label: string, options: TimerOptions = {}) {
+    if (this.timers.has(label)) {
+      this.logAtLevel(LogLevel.WARNING, `Timer "${label}" already exists`);
+      return;
+    }
+    this.timers.set(label, { started: Date.now(), options });
+  }
+
+  timeEnd(label: string) {
+    const timer = this.timers.get(label);
+    if (!timer) {
+      this.logAtLevel(LogLevel.WARNING, `Timer "${label}" does not exist`);
+      return;
+    }
+    this.timers.delete(label);
+    const elapsed = Date.now() - timer.started;
+    this.logAtLevel(...getTimerLog(label, elapsed, timer.options));
+    return elapsed;
+  }
+
+  async measure<T>(
+    label: string,
+    fn: () => T | Promise<T>,
+    options: TimerOptions = {}
+  ): Promise<T> {
+    const started = Date.now();
+    try {
+      const result = await fn();
+      this.logAtLevel(...getTimerLog(label, Date.now() - started, options));
+      return result;
+    } catch (e) {
+      this.logAtLevel(
+        LogLevel.ERROR,
+        label,
+        getDurationPrefix(Date.now() - started),
+        "failed",
+        e
+      );
+      throw e;
+    }
+  }
+
+  group(label: string): void;
+  group<T>(label: string, fn: () => T | Promise<T>): Promise<T>;
+  group<T>(label: string, fn?: () => T | Promise<T>): Promise<T> | void {
+    if (inBrowser) {
+      if (computeOptions(this).enabled) console.group(label);
+    } else {
+      this.logAtLevel(LogLevel.INFO, label);
+    }
+    this.groups.push(label);
+    if (!fn) return;
+    return (async () => {
+      try {
+        return await fn();
+      } finally {
+        this.groupEnd();
+      }
+    })();
+  }
+
+  groupEnd() {
+    if (!this.groups.length) return;
+    this.groups.pop();
+    if (inBrowser && computeOptions(this).enabled) console.groupEnd();
+  }
+
+  reportTimers(level = LogLevel.WARNING) {
+    const labels = [...this.timers.keys()];
+    for (const [label, { started }] of this.timers) {
+      this.logAtLevel(
+        level,
+        `Timer "${label}" never ended`,
+        getDurationPrefix(Date.now() - started)
+      );
+    }
+    return labels;
+  }
+
   protected logAtLevel(level: LogLevel, ...args: LogParameters) {
     return outputLog(level, args, this);
   }
 
   getPrefix(level: LogLevel) {
-    return getNodePrefix(level, this);
+    return getNodePrefix(level, computeOptions(this));
   }
 
   log(level: LogLevel, ...args: LogParameters): void {
@@ -309,55 +826,162 @@ abstract class LoggerBase implements Logger {
   get color() {
     return this.getOption("color");
   }
+
+  set formatter(f: LogFormatter) {
+    this.setOption("formatter", { ...f });
+  }
+
+  get formatter() {
+    return { ...this.getOption("formatter") };
+  }
+
+  set redact(r: RedactOptions | undefined) {
+    this.setOption("redact", r);
+  }
+
+  get redact() {
+    return this.getOption("redact");
+  }
+
+  set errors(e: ErrorFormatOptions) {
+    this.setOption("errors", { ...e });
+  }
+
+  get errors() {
+    return { ...this.getOption("errors") };
+  }
+
+  set dedup(d: boolean | number) {
+    this.setOption("dedup", d);
+  }
+
+  get dedup() {
+    return this.getOption("dedup");
+  }
+
+  set format(f: LogFormat | undefined) {
+    this.setOption("format", f);
+  }
+
+  get format() {
+    return this.getOption("format");
+  }
 }
 
 class RootLoggerInstance extends LoggerBase implements RootLogger {
-  private static __originalMethods: Partial<Record<keyof typeof console, any>> =
-    {
-      log: console.log,
-      info: console.info,
-      debug: console.debug,
-      error: console.error,
-      warn: console.warn,
-    };
+  /** Options set in code, kept when a config is applied */
+  codeOptions: Partial<LoggerOptions> = {};
+
+  constructor(options?: Partial<LoggerOptions>) {
+    super(options);
+    this.transports.add(consoleTransport);
+  }
+
+  protected setOption<K extends keyof LoggerOptions>(
+    key: K,
+    value: LoggerOptions[K]
+  ) {
+    super.setOption(key, value);
+    this.codeOptions[key] = value;
+  }
 
   scope(scopeName: string, options: Partial<LoggerOptions> = {}): ScopeLogger {
-    let scopeLogger = registry.scopes[scopeName];
-    scopeLogger ??= registry.scopes[scopeName] = new ScopeLoggerInstance(
-      scopeName,
-      this,
-      options
-    );
-    return scopeLogger;
+    return getScopeLogger(scopeName, options);
   }
 
-  patch() {
-    console.log = console.info = this.info.bind(this);
-    console.debug = this.debug.bind(this);
-    console.warn = this.warn.bind(this);
-    console.error = this.crit.bind(this);
+  configure(config: LoggerConfig) {
+    const resolved = resolveLoggerConfig(config);
+    const previous = registry.config;
+    registry.config = resolved;
+    this.options = {
+      ...DEFAULT_LOGGER_OPTIONS,
+      ...layerOptions(this.codeOptions, resolved.options),
+      ...registry.environment.options,
+    };
+    const scopeNames = new Set([
+      ...Object.keys(previous?.scopes ?? {}),
+      ...Object.keys(resolved.scopes),
+    ]);
+    for (const scopeName of scopeNames) {
+      const scope = registry.scopes[scopeName];
+      if (scope)
+        scope.options = {
+          ...DEFAULT_LOGGER_OPTIONS,
+          ...getScopeOptions(scopeName, scope.initialOptions),
+        };
+    }
   }
 
-  unpatch() {
-    Object.keys(RootLoggerInstance.__originalMethods).forEach((k) => {
-      const method = k as keyof typeof console;
-      console[method] = RootLoggerInstance.__originalMethods[method];
-    });
+  loadConfig(path: string, options: LoadConfigOptions = {}) {
+    const watcher = new ConfigWatcherImpl(path, options);
+    watcher.load();
+    return watcher;
+  }
+
+  listScopes(): ScopeInfo[] {
+    return Object.values(registry.scopes)
+      .filter((scope): scope is ScopeLoggerInstance => !!scope)
+      .map((scope) => ({
+        name: scope.scope,
+        logger: scope,
+        options: computeOptions(scope),
+      }));
+  }
+
+  resetScope(scopeName: string) {
+    const scope = registry.scopes[scopeName];
+    if (!scope) return false;
+    scope.options = {
+      ...DEFAULT_LOGGER_OPTIONS,
+      ...getScopeOptions(scopeName, scope.initialOptions),
+    };
+    return true;
+  }
+
+  removeScope(scopeName: string) {
+    const removed = registry.scopes[scopeName];
+    if (!removed) return false;
+    for (const [name, scope] of Object.entries(registry.scopes)) {
+      if (!scope || !descendsFrom(scope, removed)) continue;
+      if (registry.exclusive === scope) registry.exclusive = undefined;
+      scope.unpatch();
+      delete registry.scopes[name];
+      emitScopeEvent("remove", scope);
+    }
+    return true;
+  }
+
+  on(event: ScopeEvent, callback: (scope: ScopeLogger) => void) {
+    (registry.listeners[event] ??= new Set()).add(callback);
+  }
+
+  off(event: ScopeEvent, callback: (scope: ScopeLogger) => void) {
+    registry.listeners[event]?.delete(callback);
   }
 }
 
 class ScopeLoggerInstance extends LoggerBase implements ScopeLogger {
   readonly scope: string;
-  readonly parent: RootLogger;
+  readonly parent: LoggerBase;
+  /** Options given at creation, before config and environment options */
+  readonly initialOptions: Partial<LoggerOptions>;
 
   constructor(
     scope: string,
-    root: RootLoggerInstance,
-    options?: Partial<LoggerOptions>
+    parent: LoggerBase,
+    options: Partial<LoggerOptions> = {}
   ) {
-    super(options);
+    super(getScopeOptions(scope, options));
     this.scope = scope;
-    this.parent = root;
+    this.parent = parent;
+    this.initialOptions = options;
+  }
+
+  subscope(
+    scopeName: string,
+    options: Partial<LoggerOptions> = {}
+  ): ScopeLogger {
+    return getScopeLogger(this.scope + SCOPE_SEPARATOR + scopeName, options);
   }
 
   protected logAtLevel(level: LogLevel, ...args: LogParameters) {
@@ -365,207 +989,143 @@ class ScopeLoggerInstance extends LoggerBase implements ScopeLogger {
   }
 
   getPrefix(level: LogLevel): string {
-    return getNodePrefix(level, this, this.scope);
+    return getNodePrefix(level, computeOptions(this), this.scope);
   }
 }
 
-type LogLevelStyle = {
-  backgroundColor?: string;
-  color?: string;
-};
-
-const DEFAULT_BROWSER_STYLE = {
-  padding: "2px 4px",
-  "border-radius": "2px",
-};
-
-type LogLevelParam = {
-  label: string;
-  paddedLabel?: string;
-  methods: (typeof console.log)[];
-  style?: Partial<LogLevelStyle>;
-  css?: string;
-};
-
-const DEFAULT_LEVEL_STYLE: LogLevelStyle = {
-  backgroundColor: "grey",
-  color: "white",
-};
+class BoundLoggerInstance extends LoggerBase {
+  readonly scope?: string;
+  readonly parent: LoggerBase;
+  readonly fields: LogFields;
 
-const LEVEL_PARAMS: { [key in LogLevel]: LogLevelParam } = {
-  [LogLevel.EMERGENCY]: {
-    label: "EMERGENCY",
-    methods: [console.error, console.trace],
-    style: {
-      backgroundColor: "red",
-    },
-  },
-  [LogLevel.ALERT]: {
-    label: "ALERT",
-    methods: [console.error, console.trace],
-    style: {
-      backgroundColor: "red",
-    },
-  },
-  [LogLevel.CRITICAL]: {
-    label: "CRITICAL",
-    methods: [console.error, console.trace],
-    style: {
-      backgroundColor: "red",
-    },
-  },
-  [LogLevel.ERROR]: {
-    label: "ERROR",
-    methods: [console.error],
-    style: {
-      backgroundColor: "red",
-    },
-  },
-  [LogLevel.WARNING]: {
-    label: "WARNING",
-    methods: [console.warn],
-    style: {
-      color: "white",
-      backgroundColor: "orange",
-    },
-  },
-  [LogLevel.NOTICE]: {
-    label: "NOTICE",
-    methods: [console.info],
-    style: {
-      backgroundColor: "blue",
-    },
-  },
-  [LogLevel.INFO]: {
-    label: "INFO",
-    methods: [console.info],
-  },
-  [LogLevel.VERBOSE]: {
-    label: "VERBOSE",
-    methods: [console.debug],
-    style: {
-      // color: 'green',
-      backgroundColor: "green",
-    },
-  },
-  [LogLevel.DEBUG]: {
-    label: "DEBUG",
-    methods: [console.info],
-    style: {
-      backgroundColor: "yellow",
-      color: "black",
-    },
-  },
-  [LogLevel.WHO_CARES]: {
-    label: "WHO CARES?",
-    methods: [console.debug],
-    style: {
-      backgroundColor: "lightgray",
-      color: "black",
-    },
-  },
-};
+  constructor(parent: LoggerBase, fields: LogFields) {
+    // Inspect options are inherited from the parent as a whole
+    super({ inspect: {} });
+    this.parent = parent;
+    this.fields = { ...parent.fields, ...fields };
+    if (
+      parent instanceof ScopeLoggerInstance ||
+      parent instanceof BoundLoggerInstance
+    )
+      this.scope = parent.scope;
+  }
 
-if (inNode) {
-  const padSize = Math.max(
-    ...Object.values(LEVEL_PARAMS).map((info) => info.label.length)
-  );
-  for (const lvl of Object.values(LEVEL_PARAMS)) {
-    lvl.paddedLabel = lvl.label
-      .padEnd(lvl.label.length + (padSize - lvl.label.length) / 2, " ")
-      .padStart(padSize, " ");
+  protected logAtLevel(level: LogLevel, ...args: LogParameters) {
+    return outputLog(level, args, this, this.scope);
   }
-}
-for (const lvl of Object.values(LEVEL_PARAMS)) {
-  lvl.style = { ...DEFAULT_LEVEL_STYLE, ...lvl.style };
-  if (inBrowser) {
-    lvl.css = css(lvl.style);
+
+  getPrefix(level: LogLevel): string {
+    return getNodePrefix(level, computeOptions(this), this.scope);
   }
 }
 
-function css(style: Partial<LogLevelStyle>) {
-  const STYLE_MAP: { [key in keyof Partial<LogLevelStyle>]: string } = {
-    backgroundColor: "background-color",
-  };
+const getScopeLogger = (
+  scopeName: string,
+  options: Partial<LoggerOptions> = {}
+): ScopeLoggerInstance => {
+  let scopeLogger = registry.scopes[scopeName];
+  if (!scopeLogger) {
+    const separatorIndex = scopeName.lastIndexOf(SCOPE_SEPARATOR);
+    const parent =
+      separatorIndex > 0
+        ? getScopeLogger(scopeName.slice(0, separatorIndex))
+        : registry.root;
+    scopeLogger = registry.scopes[scopeName] = new ScopeLoggerInstance(
+      scopeName,
+      parent,
+      options
+    );
+    emitScopeEvent("create", scopeLogger);
+  }
+  return scopeLogger;
+};
 
-  const cssObject: Record<string, unknown> = { ...DEFAULT_BROWSER_STYLE };
-  for (const [styleKey, styleValue] of Object.entries(style)) {
-    const cssKey = STYLE_MAP[<keyof LogLevelStyle>styleKey] || styleKey;
-    cssObject[cssKey] = styleValue;
+const emitScopeEvent = (event: ScopeEvent, scope: ScopeLogger) => {
+  for (const callback of registry.listeners[event] ?? []) {
+    try {
+      callback(scope);
+    } catch (e) {
+      LEVEL_PARAMS[LogLevel.ERROR].methods[0](
+        e instanceof Error ? e.message : JSON.stringify(e)
+      );
+    }
   }
+};
 
-  return Object.entries(cssObject)
-    .map(([key, value]) => `${key}: ${value}`)
-    .join(";");
-}
+const getScopeOptions = (
+  scopeName: string,
+  options: Partial<LoggerOptions>
+): Partial<LoggerOptions> => ({
+  ...options,
+  ...registry.config?.scopes[scopeName],
+  ...getScopePatternOptions(scopeName, registry.environment.scopes),
+});
+
+const descendsFrom = (logger: LoggerBase, ancestor: LoggerBase) => {
+  for (let l: LoggerBase | undefined = logger; l; l = l.parent) {
+    if (l === ancestor) return true;
+  }
+  return false;
+};
 
-const computeOptions = (logger: LoggerBase) => {
-  const computed = { ...logger.options },
-    root = registry.root;
-  for (const [key, value] of Object.entries(computed)) {
+const inheritOptions = (inherited: LoggerOptions, options: LoggerOptions) => {
+  const computed = { ...options };
+  for (const key of Object.keys(computed)) {
     switch (key) {
       case "level":
-        computed[key] =
-          root.level === undefined
-            ? computed.level
-            : computed.level === undefined
-            ? root.level
-            : Math.min(root.level, computed.level);
+        // A scope level overrides the inherited one, only `enabled` cascades
+        computed.level ??= inherited.level;
+        break;
+      case "format":
+        computed[key] ??= inherited[key];
         break;
       case "date":
       case "duration":
       case "pad":
       case "stack":
-        computed[key] ||= root[key];
+        computed[key] ||= inherited[key];
         break;
+      case "dedup":
+        computed.dedup ||= inherited.dedup;
+        break;
+      case "enabled":
       case "color":
-        computed[key] &&= root[key];
+        computed[key] &&= inherited[key];
+        break;
+      case "redact":
+        computed[key] = mergeRedactOptions(inherited[key], computed[key]);
         break;
+      case "errors":
+      case "formatter":
       case "inspect":
-        computed[key] = { ...root.options[key], ...computed[key] };
+        computed[key] = { ...inherited[key], ...computed[key] };
         break;
     }
   }
   return computed;
 };
 
-const getNodePrefix = (
-  logLevel: LogLevel,
-  logger: LoggerBase,
-  scope?: string
-) => {
-  const { pad, color } = computeOptions(logger);
-  const levelParams = LEVEL_PARAMS[logLevel];
-  let levelPrefix = (pad && levelParams.paddedLabel) || levelParams.label;
-  if (scope) levelPrefix += ` <${scope}>`;
-  if (inNode) {
-    if (color && chalk) {
-      let colorize = chalk;
-      if (levelParams.style?.color) {
-        colorize = colorize.keyword(levelParams.style.color);
-      }
-      if (levelParams.style?.backgroundColor)
-        colorize = colorize.bgKeyword(levelParams.style.backgroundColor);
-      return colorize(` ${levelPrefix} `);
-    } else {
-      return `[${levelPrefix}]`;
-    }
-  } else {
-    return "";
+/**
+ * `options` over `base`, object options being merged
+ */
+const layerOptions = (
+  base: Partial<LoggerOptions>,
+  options: Partial<LoggerOptions>
+): Partial<LoggerOptions> => {
+  const layered = { ...base, ...options };
+  if (base.redact && options.redact)
+    layered.redact = mergeRedactOptions(base.redact, options.redact);
+  for (const key of ["errors", "formatter", "inspect"] as const) {
+    if (base[key] && options[key])
+      Object.assign(layered, { [key]: { ...base[key], ...options[key] } });
   }
+  return layered;
 };
 
-const getBrowserPrefix = (
-  logLevel: LogLevel,
-  logger: LoggerBase,
-  scope?: string
-) => {
-  const { color, pad } = computeOptions(logger);
-  const levelParams = LEVEL_PARAMS[logLevel];
-  let levelPrefix = (pad && levelParams.paddedLabel) || levelParams.label;
-  if (scope) levelPrefix += ` <${scope}>`;
-  return color ? [`%c${levelPrefix}`, levelParams.css!] : [`[${levelPrefix}]`];
-};
+const computeOptions = (logger: LoggerBase): LoggerOptions =>
+  logger.parent
+    ? inheritOptions(computeOptions(logger.parent), logger.options)
+    : { ...logger.options };
 
 const outputLog = (
   logLevel: LogLevel,
@@ -574,140 +1134,195 @@ const outputLog = (
   scope?: string
 ) => {
   try {
-    if (!logger.enabled || !root.enabled) return;
-    if (registry.exclusive && registry.exclusive !== logger) return;
+    const options = computeOptions(logger);
+    const { enabled, level, duration: time, stack } = options;
 
-    const {
-      date,
-      duration: time,
-      level,
-      stack,
-      inspect,
-    } = computeOptions(logger);
+    if (!enabled) return;
+    if (registry.exclusive && !isExclusiveOutput(logger)) return;
 
     if (!LEVEL_PARAMS[logLevel]) return;
     if (level && level < logLevel) return;
-    const levelParams = LEVEL_PARAMS[logLevel];
-
-    let logPrefix: string[] = inNode
-      ? [getNodePrefix(logLevel, logger, scope)]
-      : getBrowserPrefix(logLevel, logger, scope);
-
-    if (time || date) {
-      if (time) logger.lastLog ??= new Date().valueOf();
-      let now: Date = new Date();
-      if (date) {
-        const datePrefix = getDatePrefix(now);
-        logPrefix.push(datePrefix);
-      }
-      if (time) {
-        const timePrefix = getDurationPrefix(now.valueOf() - logger.lastLog!);
-        logger.lastLog = new Date().valueOf();
-        logPrefix.push(timePrefix);
-      }
+
+    const now = new Date();
+    const record: LogRecord = {
+      level: logLevel,
+      scope,
+      timestamp: now,
+      args,
+      options,
+    };
+    const context = getLogContext();
+    if (context || logger.fields)
+      record.fields = { ...context, ...logger.fields };
+    if (options.redact) {
+      record.args = redactArgs(record.args, options.redact);
+      if (record.fields)
+        record.fields = redactFields(record.fields, options.redact);
     }
-    if (stack) {
-      const caller = getLogCallerInfo();
-      let stackDisplay =
-        caller?.functionName ||
-        caller?.fileName?.split("/").slice(-1).join("/") +
-          ":" +
-          caller?.lineNumber +
-          ":" +
-          caller?.columnNumber;
-      if (caller?.functionName && caller?.fileName)
-        stackDisplay +=
-          " @ " +
-          caller?.fileName +
-          ":" +
-          caller?.lineNumber +
-          ":" +
-          caller?.columnNumber;
-      if (stackDisplay) logPrefix.push(`(${stackDisplay})`);
-    }
-
-    if (inNode && utilInspect) {
-      try {
-        args = args.map((a) =>
-          typeof a === "string"
-            ? a
-            : utilInspect(a, inspect ?? DEFAULT_INSPECT_OPTIONS)
-        );
-      } catch (e) {}
-    }
-    if (isBuffered()) {
-      const outputString = [...logPrefix, ...args]
-        .map((a) => a.toString())
-        .join(" ");
-      bufferedContent.push({
-        content: outputString,
-        lines: getContentLines(outputString),
-      });
-      printBuffer();
-    } else {
-      levelParams.methods.map((method) =>
-        method.apply(globalThis, [...logPrefix, ...args])
-      );
+    if (time) {
+      logger.lastLog ??= now.valueOf();
+      record.elapsed = now.valueOf() - logger.lastLog;
+      logger.lastLog = now.valueOf();
     }
+    // outputLog is called by logAtLevel, called by the log method
+    if (stack) record.caller = getCallerInfo(2);
+    const depth = getGroupDepth(logger);
+    if (depth) record.depth = depth;
+
+    if (isRepeated(record, logger)) return;
+    dispatchRecord(record, logger);
   } catch (e) {
     console.error(e instanceof Error ? e.message : JSON.stringify(e));
   }
 };
 
-function getDatePrefix(date: Date) {
-  return (
-    "[" +
-    date.getFullYear() +
-    "-" +
-    `${date.getMonth() + 1}`.padStart(2, "0") +
-    "-" +
-    `${date.getDate()}`.padStart(2, "0") +
-    " " +
-    `${date.getHours()}`.padStart(2, "0") +
-    ":" +
-    `${date.getMinutes()}`.padStart(2, "0") +
-    ":" +
-    `${date.getSeconds()}`.padStart(2, "0") +
-    "." +
-    `${(date.getMilliseconds() / 1000).toFixed(3).slice(2, 5)}`.padStart(
-      2,
-      "0"
-    ) +
-    "]"
-  );
-}
+const getGroupDepth = (logger: LoggerBase) => {
+  let depth = 0;
+  for (let l: LoggerBase | undefined = logger; l; l = l.parent) {
+    depth += l.groups.length;
+  }
+  return depth;
+};
+
+/**
+ * An exclusive scope logger lets its whole subtree output
+ */
+const isExclusiveOutput = (logger: LoggerBase) => {
+  const exclusive = registry.exclusive as LoggerBase | undefined;
+  if (!exclusive) return true;
+  return exclusive === root ? logger === root : descendsFrom(logger, exclusive);
+};
+
+const getTransports = (logger: LoggerBase) => {
+  const transports = new Set<LogTransport>();
+  for (let l: LoggerBase | undefined = logger; l; l = l.parent) {
+    l.transports.forEach((t) => transports.add(t));
+  }
+  return transports;
+};
+
+const dispatchRecord = (record: LogRecord, logger: LoggerBase) => {
+  for (const transport of getTransports(logger)) {
+    try {
+      transport.write(record);
+    } catch (e) {
+      LEVEL_PARAMS[LogLevel.ERROR].methods[0](
+        e instanceof Error ? e.message : JSON.stringify(e)
+      );
+    }
+  }
+};
+
+// Repeated records
+
+const DEFAULT_DEDUP_INTERVAL = 5000;
+
+type RepeatedRecord = {
+  key: string;
+  record: LogRecord;
+  logger: LoggerBase;
+  count: number;
+  timeout?: ReturnType<typeof setTimeout>;
+  /** Live repeat count, displayed in the TTY buffer */
+  counter?: RepeatCounter;
+};
 
-function getDurationPrefix(durationMs: number): string;
-function getDurationPrefix(since: Date, to?: Date): string;
-function getDurationPrefix(sinceOrDurationMs: Date | number, to?: Date) {
-  const duration =
-    typeof sinceOrDurationMs === "number"
-      ? sinceOrDurationMs
-      : (to ?? new Date()).valueOf() - sinceOrDurationMs.valueOf();
-  return `[+${(duration / 1000).toFixed(3)}s]`;
+let repeated: RepeatedRecord | undefined;
+let repeatExitHandled = false;
+
+class RepeatCounter {
+  readonly repeat: RepeatedRecord;
+
+  constructor(repeat: RepeatedRecord) {
+    this.repeat = repeat;
+  }
+
+  toString() {
+    return formatConsoleRecord(getRepeatSummary(this.repeat))
+      .map((a) => a.toString())
+      .join(" ");
+  }
 }
 
-const getCallerLimitKey = () => getCallerStack(4);
-const getLogCallerInfo = ():
-  | {
-      functionName?: string;
-      fileName?: string;
-      columnNumber?: string;
-      lineNumber?: string;
-    }
-  | undefined => {
-  const stack = getCallerStack(6);
-  if (stack) {
-    return inNode
-      ? stack.match(
-          /at (?<fileName>.*):(?<lineNumber>[0-9]*):(?<columnNumber>[0-9]*)/
-        )?.groups
-      : stack.match(
-          /at (?<functionName>.*) \(?(?<fileName>.*):(?<lineNumber>[0-9]*):(?<columnNumber>[0-9]*)\)/
-        )?.groups;
+// Records are identical with the same level, scope and formatted message
+const getRepeatKey = ({ level, scope, args, fields, options }: LogRecord) =>
+  [
+    level,
+    scope ?? "",
+    stripAnsi(
+      [
+        ...inspectArgs(
+          args,
+          { ...options.inspect, colors: false },
+          options.errors
+        ),
+        ...getFieldsSuffix(fields),
+      ].join(" ")
+    ),
+  ].join("\0");
+
+const getRepeatSummary = ({ record, count }: RepeatedRecord): LogRecord => ({
+  level: record.level,
+  scope: record.scope,
+  timestamp: new Date(),
+  args: [`last message repeated ${count} time${count === 1 ? "" : "s"}`],
+  ...(record.depth && { depth: record.depth }),
+  options: record.options,
+});
+
+/**
+ * Count a record identical to the previous one instead of outputting it, when `dedup` is enabled
+ */
+const isRepeated = (record: LogRecord, logger: LoggerBase) => {
+  const { dedup } = record.options;
+  const key = dedup ? getRepeatKey(record) : undefined;
+  if (repeated && key !== undefined && repeated.key === key) {
+    if (!repeated.count++) {
+      repeated.timeout = setTimeout(
+        () => flushRepeated(false),
+        typeof dedup === "number" ? dedup : DEFAULT_DEDUP_INTERVAL
+      );
+      if (typeof repeated.timeout === "object") repeated.timeout.unref?.();
+      if (inNode && !repeatExitHandled) {
+        repeatExitHandled = true;
+        process.once("exit", () => flushRepeated());
+      }
+      // The spinners refresh interval redraws the count as it grows
+      if (bufferStream?.isTTY && getTransports(logger).has(consoleTransport)) {
+        repeated.counter = new RepeatCounter(repeated);
+        bufferedContent.push({ content: repeated.counter });
+        if (isBuffered()) printBuffer();
+        else startBuffering();
+      }
+    }
+    return true;
   }
+  flushRepeated();
+  if (key !== undefined) repeated = { key, record, logger, count: 0 };
+  return false;
 };
 
+/**
+ * Log the repeat count of the last record, if any, and stop collapsing its repetitions unless `forget` is false
+ */
+const flushRepeated = (forget = true) => {
+  if (!repeated) return;
+  const repeat = repeated;
+  clearTimeout(repeat.timeout);
+  if (forget) repeated = undefined;
+  if (!repeat.count) return;
+
+  const { counter } = repeat;
+  if (counter)
+    bufferedContent = bufferedContent.filter((b) => b.content !== counter);
+  const summary = getRepeatSummary(repeat);
+  repeat.count = 0;
+  repeat.timeout = repeat.counter = undefined;
+  dispatchRecord(summary, repeat.logger);
+  if (counter && !isSpinning()) stopBuffering();
+};
+
+const getCallerLimitKey = () => getCallerStack(4);
 const getCallerStack = (level: number): string | undefined => {
   let err: Error;
   try {
@@ -719,14 +1334,78 @@ const getCallerStack = (level: number): string | undefined => {
   return stack.slice(level)[0];
 };
 
+// Transports
+
+let writingConsole = false;
+
+const writeConsole = (
+  level: LogLevel,
+  args: LogParameters,
+  firstMethodOnly = false
+) => {
+  if (isBuffered()) {
+    const outputString = args.map((a) => a.toString()).join(" ");
+    bufferedContent.push({
+      content: outputString,
+      lines: getContentLines(outputString),
+    });
+    printBuffer();
+  } else {
+    const { methods } = LEVEL_PARAMS[level];
+    writingConsole = true;
+    try {
+      (firstMethodOnly ? methods.slice(0, 1) : methods).map((method) =>
+        method.apply(globalThis, args)
+      );
+    } finally {
+      writingConsole = false;
+    }
+  }
+};
+
+const formatConsoleRecord = (record: LogRecord): LogParameters => {
+  const { options } = record;
+
+  if (options.format === "json") {
+    return [JSON.stringify(toJSONRecord(record))];
+  } else if (options.formatter.line) {
+    const line = options.formatter.line(record);
+    return Array.isArray(line)
+      ? inspectArgs(line, options.inspect, options.errors)
+      : [line];
+  }
+  return [
+    ...getRecordPrefix(record),
+    ...indentArgs(
+      inspectArgs(record.args, options.inspect, options.errors),
+      record.depth,
+      !!bufferStream?.isTTY
+    ),
+    ...getFieldsSuffix(record.fields),
+  ];
+};
+
+export const consoleTransport: LogTransport = {
+  write(record) {
+    writeConsole(
+      record.level,
+      formatConsoleRecord(record),
+      record.options.format === "json"
+    );
+  },
+};
+
 const registry = (() => {
   if (typeof globalThis === "undefined") throw new Error("No globalThis found");
   const anyGlobal = globalThis as any,
     registryName = "$logger-registry";
   if (!anyGlobal[registryName]) {
+    const environment = readEnvironmentConfig();
     const emptyRegistry: LoggerRegistry = {
-      root: new RootLoggerInstance(),
+      root: new RootLoggerInstance(environment.options),
       scopes: {},
+      environment,
+      listeners: {},
     };
     anyGlobal[registryName] = emptyRegistry;
   }
@@ -735,9 +1414,138 @@ const registry = (() => {
 
 const root = registry.root;
 
+const configWatchers: Set<ConfigWatcherImpl> = new Set();
+
+class ConfigWatcherImpl implements LoggerConfigWatcher {
+  readonly path: string;
+  private options: LoadConfigOptions;
+
+  #unwatch?: () => void;
+  #signal?: NodeJS.Signals;
+  #signalHandler = () => this.reload();
+
+  constructor(path: string, options: LoadConfigOptions) {
+    this.path = path;
+    this.options = options;
+  }
+
+  load() {
+    root.configure(readConfigFile(this.path));
+    if (this.options.watch)
+      this.#unwatch = watchConfigFile(this.path, () => this.reload());
+    if (this.options.signal) {
+      this.#signal =
+        this.options.signal === true ? "SIGHUP" : this.options.signal;
+      process.on(this.#signal, this.#signalHandler);
+    }
+    configWatchers.add(this);
+  }
+
+  reload() {
+    try {
+      root.configure(readConfigFile(this.path));
+    } catch (e) {
+      LEVEL_PARAMS[LogLevel.ERROR].methods[0](
+        `[logger config] ${e instanceof Error ? e.message : e}`
+      );
+    }
+  }
+
+  close() {
+    this.#unwatch?.();
+    this.#unwatch = undefined;
+    if (this.#signal) process.off(this.#signal, this.#signalHandler);
+    this.#signal = undefined;
+    configWatchers.delete(this);
+  }
+}
+
+/**
+ * Add a level (with its logger method), or override label, console method and style of an existing one
+ */
+export function registerLevel(
+  name: string,
+  definition: Partial<LevelDefinition>
+): LogLevel {
+  const isNew = !(name in LEVEL_METHODS);
+  if (isNew && (name in root || name in ScopeLoggerInstance.prototype))
+    throw new Error(`"${name}" cannot be used as a level method`);
+  const level = defineLevel(name, definition);
+  if (isNew) LoggerBase.defineLevelMethod(name, level);
+  return level;
+}
+
 export const LG: RootLogger = root as RootLogger;
 export const Logger: RootLogger = root;
 
+// Testing
+
+export interface LogCapture extends CaptureTransport {
+  /**
+   * Stop capturing (and restore console output if silenced)
+   */
+  restore(): void;
+}
+
+let activeCapture: LogCapture | undefined;
+
+/**
+ * Capture every record reaching the root logger, silencing console output by default
+ */
+export function captureLogs({
+  silent = true,
+}: { silent?: boolean } = {}): LogCapture {
+  const consoleWasRegistered = root.transports.has(consoleTransport);
+  const capture: LogCapture = Object.assign(captureTransport(), {
+    restore() {
+      root.unregisterTransport(capture);
+      if (silent && consoleWasRegistered)
+        root.registerTransport(consoleTransport);
+      if (activeCapture === capture) activeCapture = undefined;
+    },
+  });
+  root.registerTransport(capture);
+  if (silent) root.unregisterTransport(consoleTransport);
+  return (activeCapture = capture);
+}
+
+/**
+ * Assert the active capture (see `captureLogs()`) holds an entry matching `query`
+ */
+export function expectLogged(query?: LogQuery) {
+  if (!activeCapture)
+    throw new Error("No active log capture, call captureLogs() first");
+  return activeCapture.expectLogged(query);
+}
+
+/**
+ * Reset the global logger registry: root options, transports & call limits, scopes, exclusive logger, spinners, repeated record and console patch
+ */
+export function resetLoggerRegistry() {
+  clearTimeout(repeated?.timeout);
+  repeated = undefined;
+  runningSpinners.forEach((spinner) => spinner.stop());
+  stopBuffering();
+  [...consolePatches].reverse().forEach((p) => p.logger.unpatch());
+  activeCapture?.restore();
+
+  configWatchers.forEach((watcher) => watcher.close());
+
+  const environment = readEnvironmentConfig();
+  root.options = { ...DEFAULT_LOGGER_OPTIONS, ...environment.options };
+  root.codeOptions = {};
+  root.transports = new Set([consoleTransport]);
+  root.timers.clear();
+  root.groups = [];
+  root.lastLog = undefined;
+  root.resetCallLimits();
+  registry.scopes = {};
+  registry.exclusive = undefined;
+  registry.environment = environment;
+  registry.config = undefined;
+  registry.listeners = {};
+}
+
 // Spinner
 
 type SpinnerOptions = {
@@ -748,8 +1556,18 @@ type SpinnerOptions = {
   failIcon?: string;
   date?: boolean;
   duration?: boolean;
+  /** Print status lines instead of redrawing the spinner (default when output is not a TTY or in CI) */
+  ci?: boolean;
+  /** Minimum delay between two CI status lines, in ms (default 2000) */
+  updateInterval?: number;
+  /** Group markers wrapping CI output (default `github` in GitHub Actions) */
+  groups?: SpinnerGroups | false;
 };
 
+type SpinnerGroups = "github" | "plain";
+
+type SpinnerStatus = "start" | "update" | "stop";
+
 export interface LoggerSpinner {
   update(text: string): void;
   success(text?: string): void;
@@ -761,6 +1579,24 @@ export interface LoggerSpinner {
 const DEFAULT_SPINNER = "⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏".split("").map((s) => chalk?.cyan(s) ?? s);
 const DEFAULT_SUCCESS_ICON = chalk?.green("✔") ?? "✔";
 const DEFAULT_FAIL_ICON = chalk?.red("✖") ?? "✖";
+const DEFAULT_UPDATE_INTERVAL = 2000;
+
+const GROUP_MARKERS: Record<
+  SpinnerGroups,
+  { start: (text: string) => string; end: (text: string) => string }
+> = {
+  github: {
+    start: (text) => `::group::${text}`,
+    end: () => "::endgroup::",
+  },
+  plain: {
+    start: (text) => `┌─ ${text}`,
+    end: (text) => `└─ ${text}`,
+  },
+};
+
+// Group markers cannot be nested, only one spinner at a time owns a group
+let groupedSpinner: SpinnerImpl | undefined;
 
 class SpinnerImpl implements LoggerSpinner {
   private _prefix?: string | false;
@@ -769,14 +1605,20 @@ class SpinnerImpl implements LoggerSpinner {
   private _iconIndex!: number;
   private _icon!: string | string[] | null;
 
-  private _logger: LoggerBase;
-  private _level: LogLevel;
+  protected _logger: LoggerBase;
+  protected _level: LogLevel;
 
   // private _loggerOptions: LoggerOptions;
 
   $started?: Date;
   $stopped?: Date;
 
+  readonly ci: boolean;
+  private _lastStatus = 0;
+  private _lastStatusText?: string;
+  private _statusTimeout?: ReturnType<typeof setTimeout>;
+  private _groupText?: string;
+
   private options: SpinnerOptions;
 
   constructor(logger: LoggerBase, level: LogLevel, options: SpinnerOptions) {
@@ -789,6 +1631,7 @@ class SpinnerImpl implements LoggerSpinner {
       failIcon: DEFAULT_FAIL_ICON,
       ...options,
     };
+    this.ci = options.ci ?? (!bufferStream?.isTTY || inCI);
     this.init();
   }
 
@@ -812,22 +1655,29 @@ class SpinnerImpl implements LoggerSpinner {
   }
 
   start() {
-    if (!root.enabled || !this._logger.enabled) return;
+    if (!computeOptions(this._logger).enabled) return;
     if (!this.$started) {
       this.$started = new Date();
       runningSpinners.add(this);
+      if (this.ci) {
+        this.logStatus("start");
+        return;
+      }
       bufferedContent.push({ content: this });
       if (!isBuffered()) {
         startBuffering();
+      } else {
+        updateRefreshInterval();
       }
       if (!isBuffered()) {
-        this._logger.log(this._level, this.toString(false));
+        this.logStatus("start");
       }
     }
   }
 
   update(text: string) {
     this.setText(text);
+    this.changed();
   }
 
   success(text?: string) {
@@ -846,14 +1696,40 @@ class SpinnerImpl implements LoggerSpinner {
     if (!this.$stopped && !!this.$started) {
       this.$stopped = new Date();
       runningSpinners.delete(this);
-      if (!isBuffered()) {
-        this._logger.log(this._level, this.toString(false));
-      } else if (!isSpinning()) {
+      clearTimeout(this._statusTimeout);
+      this._statusTimeout = undefined;
+      if (this.ci || !isBuffered()) {
+        this.logStatus("stop");
+      } else if (!isSpinning() && !repeated?.counter) {
         stopBuffering();
+      } else {
+        updateRefreshInterval();
       }
     }
   }
 
+  /**
+   * Throttle CI status lines on spinner changes, the last change is always printed
+   */
+  protected changed() {
+    if (!this.ci || !this.$started || this.$stopped || this._statusTimeout)
+      return;
+    const delay =
+      this._lastStatus +
+      (this.options.updateInterval ?? DEFAULT_UPDATE_INTERVAL) -
+      Date.now();
+    if (delay <= 0) {
+      this.logStatus("update");
+    } else {
+      this._statusTimeout = setTimeout(() => {
+        this._statusTimeout = undefined;
+        this.logStatus("update");
+      }, delay);
+      if (typeof this._statusTimeout === "object")
+        this._statusTimeout.unref?.();
+    }
+  }
+
   spin() {
     if (
       this.$started &&
@@ -870,7 +1746,10 @@ class SpinnerImpl implements LoggerSpinner {
     let textString = "";
     if (this._prefix !== false) {
       if (withLevelPrefix ?? true)
-        textString += this._logger.getPrefix(this._level) + " ";
+        textString +=
+          this._logger.getPrefix(this._level) +
+          " " +
+          getGroupIndent(getGroupDepth(this._logger), true);
       if (this._prefix) textString += this._prefix + " ";
     }
     if (this.options.date && this.$started) {
@@ -886,9 +1765,363 @@ class SpinnerImpl implements LoggerSpinner {
     } else if (this._icon !== null) {
       textString += this._icon + " ";
     }
-    textString += this._text;
+    textString += this.renderText();
     return textString;
   }
+
+  protected renderText() {
+    return this._text;
+  }
+
+  protected logStatus(status: SpinnerStatus) {
+    const groups = this.ci
+      ? this.options.groups ?? (inGithubActions ? "github" : false)
+      : false;
+    const text = this.renderText();
+
+    if (status === "update" && text === this._lastStatusText) return;
+    this._lastStatus = Date.now();
+    this._lastStatusText = text;
+
+    if (status === "start" && groups && !groupedSpinner) {
+      groupedSpinner = this;
+      this._groupText = stripAnsi(this._text);
+      bufferStream.write(
+        GROUP_MARKERS[groups].start(this._groupText) + os?.EOL
+      );
+      return;
+    }
+    if (status === "stop" && groups && groupedSpinner === this) {
+      groupedSpinner = undefined;
+      bufferStream.write(
+        GROUP_MARKERS[groups].end(this._groupText ?? "") + os?.EOL
+      );
+    }
+
+    let line = this.toString(false);
+    if (status === "stop" && this.ci && this.$started && this.$stopped) {
+      const duration = `(${formatDuration(
+        this.$stopped.valueOf() - this.$started.valueOf(),
+        "auto"
+      )})`;
+      line += " " + (chalk?.gray(duration) ?? duration);
+    }
+    this._logger.log(this._level, line);
+  }
+}
+
+// Progress
+
+type ProgressOptions = SpinnerOptions & {
+  total: number;
+  /** Bar width, in characters */
+  width?: number;
+};
+
+export interface LoggerProgress extends LoggerSpinner {
+  readonly value: number;
+  readonly total: number;
+
+  increment(step?: number, text?: string): void;
+  set(value: number, text?: string): void;
+  setTotal(total: number): void;
+}
+
+const DEFAULT_PROGRESS_WIDTH = 20;
+const PROGRESS_COMPLETE_CHAR = "█";
+const PROGRESS_INCOMPLETE_CHAR = "░";
+
+const formatRemaining = (seconds: number) =>
+  seconds >= 60
+    ? `${Math.floor(seconds / 60)}m${`${Math.round(seconds % 60)}`.padStart(
+        2,
+        "0"
+      )}s`
+    : `${Math.round(seconds)}s`;
+
+class ProgressImpl extends SpinnerImpl implements LoggerProgress {
+  private _value = 0;
+  private _total: number;
+  private _width: number;
+
+  constructor(logger: LoggerBase, level: LogLevel, options: ProgressOptions) {
+    super(logger, level, options);
+    this._total = options.total;
+    this._width = options.width ?? DEFAULT_PROGRESS_WIDTH;
+  }
+
+  get value() {
+    return this._value;
+  }
+
+  get total() {
+    return this._total;
+  }
+
+  increment(step = 1, text?: string) {
+    this.set(this._value + step, text);
+  }
+
+  set(value: number, text?: string) {
+    this._value = Math.max(0, value);
+    if (text !== undefined) this.setText(text);
+    this.changed();
+  }
+
+  setTotal(total: number) {
+    this._total = total;
+  }
+
+  success(text?: string) {
+    this._value = Math.max(this._value, this._total);
+    super.success(text);
+  }
+
+  protected renderText() {
+    const ratio = this._total > 0 ? Math.min(1, this._value / this._total) : 0;
+    const filled = Math.round(ratio * this._width);
+    const completeBar = PROGRESS_COMPLETE_CHAR.repeat(filled);
+    const bar =
+      (chalk?.cyan(completeBar) ?? completeBar) +
+      PROGRESS_INCOMPLETE_CHAR.repeat(this._width - filled);
+
+    const elapsed = this.$started
+      ? ((this.$stopped ?? new Date()).valueOf() - this.$started.valueOf()) /
+        1000
+      : 0;
+    const rate = elapsed > 0 ? this._value / elapsed : 0;
+    let stats = `${Math.floor(ratio * 100)}% ${this._value}/${
+      this._total
+    } ${rate.toFixed(1)}/s`;
+    if (!this.$stopped && rate > 0 && this._value < this._total)
+      stats += ` ETA ${formatRemaining((this._total - this._value) / rate)}`;
+
+    return `${super.renderText()} ${bar} ${stats}`;
+  }
+}
+
+// Tasks
+
+export type TaskContext = {
+  setTitle(title: string): void;
+  /** Short status text displayed after the task title */
+  output(text: string): void;
+};
+
+export type LoggerTask = {
+  title: string;
+  task?: (context: TaskContext) => unknown;
+  subtasks?: LoggerTask[];
+  /** Run subtasks concurrently */
+  concurrent?: boolean;
+  skip?: boolean | string | (() => boolean | string);
+};
+
+type TasksOptions = {
+  /** Run top level tasks concurrently */
+  concurrent?: boolean;
+  /** Hide subtasks of successful tasks (default true) */
+  collapse?: boolean;
+};
+
+type TaskStatus = "pending" | "running" | "success" | "fail" | "skip";
+
+export interface TaskError extends Error {
+  path: string[];
+  catched: any;
+}
+
+class TaskErrorImpl extends Error implements TaskError {
+  path: string[];
+  catched: any;
+
+  constructor(path: string[], catched: any) {
+    super(
+      `Task "${path.join(TASK_PATH_SEPARATOR)}" failed: ${
+        catched instanceof Error ? catched.message : catched
+      }`
+    );
+    this.path = path;
+    this.catched = catched;
+  }
+}
+
+const TASK_PATH_SEPARATOR = " › ";
+const TASK_PENDING_ICON = chalk?.gray("○") ?? "○";
+const TASK_SKIP_ICON = chalk?.yellow("↓") ?? "↓";
+
+class TaskNode {
+  readonly definition: LoggerTask;
+  readonly parent?: TaskNode;
+  readonly children: TaskNode[];
+
+  title: string;
+  status: TaskStatus = "pending";
+  output?: string;
+  started?: Date;
+  stopped?: Date;
+
+  constructor(definition: LoggerTask, parent?: TaskNode) {
+    this.definition = definition;
+    this.parent = parent;
+    this.title = definition.title;
+    this.children = (definition.subtasks ?? []).map(
+      (subtask) => new TaskNode(subtask, this)
+    );
+  }
+
+  get path(): string[] {
+    return [...(this.parent?.path ?? []), this.title];
+  }
+}
+
+class TaskListImpl extends SpinnerImpl {
+  private nodes: TaskNode[];
+  private tasksOptions: TasksOptions;
+  private frame = 0;
+
+  constructor(
+    logger: LoggerBase,
+    level: LogLevel,
+    tasks: LoggerTask[],
+    options: TasksOptions = {}
+  ) {
+    super(logger, level, { text: "" });
+    this.nodes = tasks.map((task) => new TaskNode(task));
+    this.tasksOptions = options;
+  }
+
+  async run() {
+    this.start();
+    printBuffer();
+    try {
+      await this.runNodes(this.nodes, this.tasksOptions.concurrent);
+    } finally {
+      this.stop();
+    }
+  }
+
+  private async runNodes(nodes: TaskNode[], concurrent?: boolean) {
+    if (concurrent) {
+      const results = await Promise.allSettled(
+        nodes.map((node) => this.runNode(node))
+      );
+      const failure = results.find(
+        (result): result is PromiseRejectedResult =>
+          result.status === "rejected"
+      );
+      if (failure) throw failure.reason;
+    } else {
+      for (const node of nodes) await this.runNode(node);
+    }
+  }
+
+  private async runNode(node: TaskNode) {
+    const { definition } = node;
+    const skip =
+      typeof definition.skip === "function"
+        ? definition.skip()
+        : definition.skip;
+    if (skip) {
+      node.status = "skip";
+      if (typeof skip === "string") node.output = skip;
+      this.report(node);
+      return;
+    }
+
+    node.status = "running";
+    node.started = new Date();
+    this.report(node);
+    try {
+      await definition.task?.({
+        setTitle: (title) => {
+          node.title = title;
+        },
+        output: (text) => {
+          node.output = text;
+        },
+      });
+      await this.runNodes(node.children, definition.concurrent);
+      node.status = "success";
+    } catch (e) {
+      node.status = "fail";
+      if (e instanceof TaskErrorImpl) throw e;
+      node.output = e instanceof Error ? e.message : `${e}`;
+      throw new TaskErrorImpl(node.path, e);
+    } finally {
+      node.stopped = new Date();
+      this.report(node);
+    }
+  }
+
+  private report(node: TaskNode) {
+    if (isBuffered()) {
+      printBuffer();
+    } else if (node.status !== "pending") {
+      this._logger.log(
+        node.status === "fail" ? LogLevel.ERROR : this._level,
+        this.renderNode(node, node.path.join(TASK_PATH_SEPARATOR))
+      );
+    }
+  }
+
+  private renderNode(node: TaskNode, title = node.title) {
+    let icon: string;
+    switch (node.status) {
+      case "running":
+        icon = DEFAULT_SPINNER[this.frame % DEFAULT_SPINNER.length];
+        break;
+      case "success":
+        icon = DEFAULT_SUCCESS_ICON;
+        break;
+      case "fail":
+        icon = DEFAULT_FAIL_ICON;
+        break;
+      case "skip":
+        icon = TASK_SKIP_ICON;
+        break;
+      default:
+        icon = TASK_PENDING_ICON;
+    }
+    let line = `${icon} ${title}`;
+    if (node.started && node.stopped) {
+      const duration = `(${formatDuration(
+        node.stopped.valueOf() - node.started.valueOf(),
+        "auto"
+      )})`;
+      line += " " + (chalk?.gray(duration) ?? duration);
+    }
+    if (node.output) line += " " + (chalk?.dim(node.output) ?? node.output);
+    return line;
+  }
+
+  private renderLines(nodes: TaskNode[], depth = 0): string[] {
+    const collapse = this.tasksOptions.collapse ?? true;
+    return nodes.flatMap((node) => [
+      "  ".repeat(depth) + this.renderNode(node),
+      ...(collapse && ["success", "skip"].includes(node.status)
+        ? []
+        : this.renderLines(node.children, depth + 1)),
+    ]);
+  }
+
+  spin() {
+    if (this.$started && !this.$stopped) this.frame++;
+  }
+
+  toString(withLevelPrefix?: boolean): string {
+    const prefix =
+      withLevelPrefix ?? true
+        ? this._logger.getPrefix(this._level) +
+          " " +
+          getGroupIndent(getGroupDepth(this._logger), true)
+        : "";
+    return this.renderLines(this.nodes)
+      .map((line) => prefix + line)
+      .join(os?.EOL);
+  }
+
+  protected logStatus() {}
 }
 
 const runningSpinners: Set<SpinnerImpl> = new Set();
@@ -896,32 +2129,25 @@ let spinnersRefreshInterval: ReturnType<typeof setInterval> | undefined =
   undefined;
 
 const bufferStream: WriteStream = process?.stdout;
-let bufferedContent: { content: string | SpinnerImpl; lines?: number }[] = [];
+let bufferedContent: {
+  content: string | SpinnerImpl | RepeatCounter;
+  lines?: number;
+}[] = [];
 let bufferedDisplayLineCount = 0;
 
 function getContentLines(str: string, columns?: number) {
   columns ??= bufferStream.columns || 80;
   let lines = 0;
-  str
-    .replace(
-      new RegExp(
-        [
-          "[\\u001B\\u009B][[\\]()#;?]*(?:(?:(?:(?:;[-a-zA-Z\\d\\/#&.:=?%@~_]+)*|[a-zA-Z\\d]+(?:;[-a-zA-Z\\d\\/#&.:=?%@~_]*)*)?\\u0007)",
-          "(?:(?:\\d{1,4}(?:;\\d{0,4})*)?[\\dA-PR-TZcf-nq-uy=><~]))",
-        ].join("|"),
-        "g"
-      ),
-      ""
-    )
+  stripAnsi(str)
     .split(os?.EOL)
     .forEach((ln) => {
-      lines += Math.max(1, Math.ceil(ln.length) / columns!);
+      lines += Math.max(1, Math.ceil(ln.length / columns!));
     });
   return lines;
 }
 
 function isSpinning() {
-  return runningSpinners.size;
+  return [...runningSpinners].some((spinner) => !spinner.ci);
 }
 
 function isBuffered() {
@@ -930,19 +2156,30 @@ function isBuffered() {
 
 function startBuffering() {
   if (bufferStream.isTTY && !isBuffered()) {
-    bufferStream.write("\u001B[?25l");
+    interceptForeignWrites();
+    writeOwnOutput(() => bufferStream.write("\u001B[?25l"));
     spinnersRefreshInterval = setInterval(() => {
       runningSpinners.forEach((s) => s.spin());
       printBuffer();
     }, 80);
+    updateRefreshInterval();
     printBuffer();
   }
 }
 
+// Running spinners keep the process alive, a repeat counter alone does not
+function updateRefreshInterval() {
+  if (typeof spinnersRefreshInterval !== "object") return;
+  if (isSpinning()) spinnersRefreshInterval.ref?.();
+  else spinnersRefreshInterval.unref?.();
+}
+
 function stopBuffering() {
   if (isBuffered()) {
+    restoreForeignWrites();
     printBuffer();
-    bufferStream.write(os?.EOL);
+    // Show the cursor hidden by startBuffering
+    writeOwnOutput(() => bufferStream.write(os?.EOL + "\u001B[?25h"));
     clearInterval(spinnersRefreshInterval);
     bufferedContent = [];
     bufferedDisplayLineCount = 0;
@@ -950,8 +2187,68 @@ function stopBuffering() {
   }
 }
 
-function printBuffer() {
-  if (!isBuffered()) return;
+// Writes of other code while buffering, printed above the redrawn region
+
+const foreignWrites: Map<WriteStream, WriteStream["write"]> = new Map();
+let foreignPartialLine = "";
+let writingOwnOutput = false;
+
+function writeOwnOutput(write: () => void) {
+  writingOwnOutput = true;
+  try {
+    write();
+  } finally {
+    writingOwnOutput = false;
+  }
+}
+
+function printForeignLines(text: string) {
+  const lines = (foreignPartialLine + text).split(/\r?\n/);
+  foreignPartialLine = lines.pop() ?? "";
+  if (lines.length) printBuffer(lines.map((line) => line + os?.EOL).join(""));
+}
+
+function interceptForeignWrites() {
+  for (const stream of [process.stdout, process.stderr] as WriteStream[]) {
+    // Redirected streams keep their output, only the terminal one is redrawn
+    if (!stream.isTTY) continue;
+    const write = stream.write;
+    foreignWrites.set(stream, write);
+    stream.write = function (
+      chunk: string | Uint8Array,
+      encoding?: BufferEncoding | ((err?: Error) => void),
+      callback?: (err?: Error) => void
+    ) {
+      if (writingOwnOutput)
+        return write.call(stream, chunk, encoding as BufferEncoding, callback);
+      printForeignLines(
+        typeof chunk === "string"
+          ? chunk
+          : Buffer.from(chunk).toString(
+              typeof encoding === "string" ? encoding : undefined
+            )
+      );
+      const done = typeof encoding === "function" ? encoding : callback;
+      if (done) process.nextTick(done);
+      return true;
+    } as WriteStream["write"];
+  }
+}
+
+function restoreForeignWrites() {
+  foreignWrites.forEach((write, stream) => (stream.write = write));
+  foreignWrites.clear();
+  if (foreignPartialLine) printForeignLines(os?.EOL);
+}
+
+/**
+ * Redraw the buffered content, after printing `above` permanently in its place
+ */
+function printBuffer(above = "") {
+  if (isBuffered()) writeOwnOutput(() => redrawBuffer(above));
+}
+
+function redrawBuffer(above: string) {
   bufferStream.cursorTo(0);
   for (
     let clearLineIndex = 0;
@@ -965,12 +2262,13 @@ function printBuffer() {
   bufferedDisplayLineCount = 0;
 
   bufferStream.write(
-    bufferedContent
-      .map((buff) => {
-        const content = buff.content.toString();
-        bufferedDisplayLineCount += buff.lines ?? getContentLines(content);
-        return content;
-      })
-      .join(os?.EOL)
+    above +
+      bufferedContent
+        .map((buff) => {
+          const content = buff.content.toString();
+          bufferedDisplayLineCount += buff.lines ?? getContentLines(content);
+          return content;
+        })
+        .join(os?.EOL)
   );
 }
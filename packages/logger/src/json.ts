@@ -0,0 +1,88 @@
+const CIRCULAR = "[Circular]";
+
+/**
+ * Convert any value into a JSON compatible structure
+ * (Errors, circular references, BigInt, Map, Set...)
+ */
+export function serialize(
+  value: unknown,
+  seen: WeakSet<object> = new WeakSet()
+): unknown {
+  switch (typeof value) {
+    case "bigint":
+      return value.toString();
+    case "symbol":
+      return value.toString();
+    case "function":
+      return `[Function ${value.name || "anonymous"}]`;
+    case "undefined":
+      return undefined;
+    case "number":
+      return Number.isFinite(value) ? value : String(value);
+    case "object":
+      break;
+    default:
+      return value;
+  }
+  if (value === null) return null;
+  if (value instanceof Date) {
+    return isNaN(value.valueOf()) ? String(value) : value.toISOString();
+  }
+  if (value instanceof RegExp) return value.toString();
+  if (seen.has(value)) return CIRCULAR;
+  seen.add(value);
+  try {
+    if (value instanceof Error) return serializeError(value, seen);
+    if (value instanceof Map) {
+      const entries: Record<string, unknown> = {};
+      for (const [k, v] of value) entries[String(k)] = serialize(v, seen);
+      return entries;
+    }
+    if (value instanceof Set) {
+      return [...value].map((v) => serialize(v, seen));
+    }
+    if (Array.isArray(value)) {
+      return value.map((v) => serialize(v, seen) ?? null);
+    }
+    if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+      return serialize((value as { toJSON: () => unknown }).toJSON(), seen);
+    }
+    const result: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      const serialized = serialize(v, seen);
+      if (serialized !== undefined) result[k] = serialized;
+    }
+    return result;
+  } finally {
+    seen.delete(value);
+  }
+}
+
+function serializeError(error: Error, seen: WeakSet<object>) {
+  const result: Record<string, unknown> = {
+    name: error.name,
+    message: error.message,
+  };
+  for (const [k, v] of Object.entries(error)) {
+    const serialized = serialize(v, seen);
+    if (serialized !== undefined) result[k] = serialized;
+  }
+  if ("cause" in error && error.cause !== undefined) {
+    result.cause = serialize(error.cause, seen);
+  }
+  const { errors } = error as { errors?: unknown };
+  if (Array.isArray(errors)) result.errors = serialize(errors, seen);
+  if (error.stack) result.stack = error.stack;
+  return result;
+}
+
+/**
+ * JSON.stringify that never throws
+ */
+export function stringify(value: unknown): string {
+  try {
+    return JSON.stringify(serialize(value)) ?? String(value);
+  } catch (e) {
+    return JSON.stringify(String(value));
+  }
+}
@@ -0,0 +1,238 @@
+import { inBrowser, inNode } from "./env";
+
+export enum LogLevel {
+  EMERGENCY = 0,
+  ALERT = 1,
+  CRITICAL = 2,
+  ERROR = 3,
+  WARNING = 4,
+  NOTICE = 5,
+  INFO = 6,
+  VERBOSE = 7,
+  DEBUG = 8,
+  WHO_CARES = 9,
+}
+
+const DEFAULT_LEVEL_METHODS = {
+  emerg: LogLevel.EMERGENCY,
+  alert: LogLevel.ALERT,
+  crit: LogLevel.CRITICAL,
+  error: LogLevel.ERROR,
+  warn: LogLevel.WARNING,
+  notice: LogLevel.NOTICE,
+  info: LogLevel.INFO,
+  verb: LogLevel.VERBOSE,
+  debug: LogLevel.DEBUG,
+  wth: LogLevel.WHO_CARES,
+};
+
+export type LevelMethodName = keyof typeof DEFAULT_LEVEL_METHODS;
+
+export const BUILTIN_LEVEL_METHODS: Readonly<
+  Record<LevelMethodName, LogLevel>
+> = DEFAULT_LEVEL_METHODS;
+
+/**
+ * Logger method name => level, including registered levels
+ */
+export const LEVEL_METHODS: Record<string, LogLevel> = {
+  ...DEFAULT_LEVEL_METHODS,
+};
+
+const CONSOLE_METHODS = {
+  log: console.log,
+  info: console.info,
+  debug: console.debug,
+  warn: console.warn,
+  error: console.error,
+  trace: console.trace,
+};
+
+export type ConsoleMethodName = keyof typeof CONSOLE_METHODS;
+
+export type LogLevelStyle = {
+  backgroundColor?: string;
+  color?: string;
+};
+
+const DEFAULT_BROWSER_STYLE = {
+  padding: "2px 4px",
+  "border-radius": "2px",
+};
+
+type LogLevelParam = {
+  label: string;
+  paddedLabel?: string;
+  methods: (typeof console.log)[];
+  style?: Partial<LogLevelStyle>;
+  css?: string;
+  customCss?: string;
+};
+
+export type LevelDefinition = {
+  label: string;
+  /** Severity, the lower the more severe */
+  priority: number;
+  /** Console method(s) used by the console transport */
+  method: ConsoleMethodName | ConsoleMethodName[];
+  style: Partial<LogLevelStyle>;
+  /** Browser CSS, computed from style if not provided */
+  css: string;
+};
+
+const DEFAULT_LEVEL_STYLE: LogLevelStyle = {
+  backgroundColor: "grey",
+  color: "white",
+};
+
+export const LEVEL_PARAMS: Record<number, LogLevelParam> = {
+  [LogLevel.EMERGENCY]: {
+    label: "EMERGENCY",
+    methods: [console.error, console.trace],
+    style: {
+      backgroundColor: "red",
+    },
+  },
+  [LogLevel.ALERT]: {
+    label: "ALERT",
+    methods: [console.error, console.trace],
+    style: {
+      backgroundColor: "red",
+    },
+  },
+  [LogLevel.CRITICAL]: {
+    label: "CRITICAL",
+    methods: [console.error, console.trace],
+    style: {
+      backgroundColor: "red",
+    },
+  },
+  [LogLevel.ERROR]: {
+    label: "ERROR",
+    methods: [console.error],
+    style: {
+      backgroundColor: "red",
+    },
+  },
+  [LogLevel.WARNING]: {
+    label: "WARNING",
+    methods: [console.warn],
+    style: {
+      color: "white",
+      backgroundColor: "orange",
+    },
+  },
+  [LogLevel.NOTICE]: {
+    label: "NOTICE",
+    methods: [console.info],
+    style: {
+      backgroundColor: "blue",
+    },
+  },
+  [LogLevel.INFO]: {
+    label: "INFO",
+    methods: [console.info],
+  },
+  [LogLevel.VERBOSE]: {
+    label: "VERBOSE",
+    methods: [console.debug],
+    style: {
+      // color: 'green',
+      backgroundColor: "green",
+    },
+  },
+  [LogLevel.DEBUG]: {
+    label: "DEBUG",
+    methods: [console.info],
+    style: {
+      backgroundColor: "yellow",
+      color: "black",
+    },
+  },
+  [LogLevel.WHO_CARES]: {
+    label: "WHO CARES?",
+    methods: [console.debug],
+    style: {
+      backgroundColor: "lightgray",
+      color: "black",
+    },
+  },
+};
+
+function updateLevelLabels() {
+  if (inNode) {
+    const padSize = Math.max(
+      ...Object.values(LEVEL_PARAMS).map((info) => info.label.length)
+    );
+    for (const lvl of Object.values(LEVEL_PARAMS)) {
+      lvl.paddedLabel = lvl.label
+        .padEnd(lvl.label.length + (padSize - lvl.label.length) / 2, " ")
+        .padStart(padSize, " ");
+    }
+  }
+  for (const lvl of Object.values(LEVEL_PARAMS)) {
+    lvl.style = { ...DEFAULT_LEVEL_STYLE, ...lvl.style };
+    if (inBrowser) {
+      lvl.css = lvl.customCss ?? css(lvl.style);
+    }
+  }
+}
+updateLevelLabels();
+
+/**
+ * Add a level, or override an existing one when `name` is already a level method
+ *
+ * Returns the level priority
+ */
+export function defineLevel(
+  name: string,
+  definition: Partial<LevelDefinition>
+): LogLevel {
+  let level = LEVEL_METHODS[name];
+  if (level === undefined) {
+    const { label, priority } = definition;
+    if (label === undefined || priority === undefined)
+      throw new Error(`Level "${name}" needs a label and a priority`);
+    if (LEVEL_PARAMS[priority])
+      throw new Error(
+        `Priority ${priority} is already used by level ${LEVEL_PARAMS[priority].label}`
+      );
+    level = LEVEL_METHODS[name] = priority;
+    LEVEL_PARAMS[level] = { label, methods: [CONSOLE_METHODS.log] };
+  } else if (
+    definition.priority !== undefined &&
+    definition.priority !== level
+  ) {
+    throw new Error(`Priority of level "${name}" cannot be changed`);
+  }
+
+  const params = LEVEL_PARAMS[level];
+  if (definition.label !== undefined) params.label = definition.label;
+  if (definition.method !== undefined) {
+    params.methods = (
+      Array.isArray(definition.method) ? definition.method : [definition.method]
+    ).map((method) => CONSOLE_METHODS[method]);
+  }
+  if (definition.style !== undefined)
+    params.style = { ...params.style, ...definition.style };
+  if (definition.css !== undefined) params.customCss = definition.css;
+
+  updateLevelLabels();
+  return level;
+}
+
+function css(style: Partial<LogLevelStyle>) {
+  const STYLE_MAP: { [key in keyof Partial<LogLevelStyle>]: string } = {
+    backgroundColor: "background-color",
+  };
+
+  const cssObject: Record<string, unknown> = { ...DEFAULT_BROWSER_STYLE };
+  for (const [styleKey, styleValue] of Object.entries(style)) {
+    const cssKey = STYLE_MAP[<keyof LogLevelStyle>styleKey] || styleKey;
+    cssObject[cssKey] = styleValue;
+  }
+
+  return Object.entries(cssObject)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(";");
+}
@@ -0,0 +1,162 @@
+import type { LogFields, LogParameters } from "./types";
+
+export type RedactCensor =
+  | string
+  | ((value: unknown, path: string[]) => unknown);
+
+export type RedactOptions = {
+  /**
+   * Key paths to censor, `*` matches any key and `**` any depth: `*.password`, `headers.authorization`
+   *
+   * A leading `*.` also matches top level keys: `*.password` censors `{ password }` and `{ user: { password } }`,
+   * use `**.password` to censor it at any depth
+   */
+  paths?: string[];
+  /** Patterns censored in every string */
+  patterns?: RegExp[];
+  /** Replacement value, or function computing it (default `[REDACTED]`) */
+  censor?: RedactCensor;
+};
+
+const DEFAULT_CENSOR = "[REDACTED]";
+
+export const REDACT_PATTERNS = {
+  jwt: /\beyJ[\w-]*\.eyJ[\w-]*\.[\w-]*/g,
+  creditCard: /\b(?:\d[ -]?){12,18}\d\b/g,
+  bearer: /\bBearer\s+[\w\-.~+/]+=*/gi,
+};
+
+export const mergeRedactOptions = (
+  inherited?: RedactOptions,
+  options?: RedactOptions
+): RedactOptions | undefined => {
+  if (!inherited || !options) return options ?? inherited;
+  return {
+    paths: [...(inherited.paths ?? []), ...(options.paths ?? [])],
+    patterns: [...(inherited.patterns ?? []), ...(options.patterns ?? [])],
+    censor: options.censor ?? inherited.censor,
+  };
+};
+
+const matchesPath = (pattern: string[], path: string[]): boolean => {
+  if (!pattern.length) return !path.length;
+  const [head, ...rest] = pattern;
+  if (head === "**") {
+    for (let index = 0; index <= path.length; index++) {
+      if (matchesPath(rest, path.slice(index))) return true;
+    }
+    return false;
+  }
+  if (!path.length) return false;
+  return (head === "*" || head === path[0]) && matchesPath(rest, path.slice(1));
+};
+
+// Values without own properties to censor
+const isOpaque = (value: object) =>
+  value instanceof Date ||
+  value instanceof RegExp ||
+  value instanceof Promise ||
+  value instanceof WeakMap ||
+  value instanceof WeakSet ||
+  value instanceof ArrayBuffer ||
+  ArrayBuffer.isView(value);
+
+class Redactor {
+  private paths: string[][];
+  private patterns: RegExp[];
+  private censor: RedactCensor;
+  private copies = new Map<object, unknown>();
+
+  constructor(options: RedactOptions) {
+    this.paths = (options.paths ?? []).flatMap((p) => {
+      const path = p.split(".");
+      return path[0] === "*" && path.length > 1
+        ? [path, path.slice(1)]
+        : [path];
+    });
+    this.patterns = (options.patterns ?? []).map((p) =>
+      p.global ? p : new RegExp(p.source, p.flags + "g")
+    );
+    this.censor = options.censor ?? DEFAULT_CENSOR;
+  }
+
+  private censored(value: unknown, path: string[]) {
+    return typeof this.censor === "function"
+      ? this.censor(value, path)
+      : this.censor;
+  }
+
+  private redactString(str: string, path: string[]) {
+    return this.patterns.reduce(
+      (result, pattern) =>
+        result.replace(pattern, (match) => `${this.censored(match, path)}`),
+      str
+    );
+  }
+
+  redact(value: unknown, path: string[] = []): unknown {
+    if (path.length && this.paths.some((p) => matchesPath(p, path)))
+      return this.censored(value, path);
+    if (typeof value === "string") return this.redactString(value, path);
+    if (value === null || typeof value !== "object") return value;
+    if (this.copies.has(value)) return this.copies.get(value);
+
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      this.copies.set(value, copy);
+      value.forEach((v, i) => copy.push(this.redact(v, [...path, `${i}`])));
+      return copy;
+    }
+    if (value instanceof Map) {
+      const copy = new Map();
+      this.copies.set(value, copy);
+      value.forEach((v, k) => copy.set(k, this.redact(v, [...path, `${k}`])));
+      return copy;
+    }
+    if (value instanceof Set) {
+      const copy = new Set();
+      this.copies.set(value, copy);
+      [...value].forEach((v, i) => copy.add(this.redact(v, [...path, `${i}`])));
+      return copy;
+    }
+    if (value instanceof Error) {
+      const copy = Object.create(Object.getPrototypeOf(value));
+      this.copies.set(value, copy);
+      for (const key of Object.getOwnPropertyNames(value)) {
+        const descriptor = Object.getOwnPropertyDescriptor(value, key);
+        if (descriptor && "value" in descriptor)
+          descriptor.value = this.redact(descriptor.value, [...path, key]);
+        Object.defineProperty(copy, key, descriptor ?? {});
+      }
+      return copy;
+    }
+    if (isOpaque(value)) return value;
+
+    // Class instances are walked into plain copies of their own properties
+    const prototype = Object.getPrototypeOf(value);
+    const copy: Record<string, unknown> = Object.create(
+      prototype === null ? null : Object.prototype
+    );
+    this.copies.set(value, copy);
+    for (const [k, v] of Object.entries(value)) {
+      copy[k] = this.redact(v, [...path, k]);
+    }
+    return copy;
+  }
+}
+
+/**
+ * Censor log arguments, without mutating them
+ */
+export const redactArgs = (
+  args: LogParameters,
+  options: RedactOptions
+): LogParameters => {
+  const redactor = new Redactor(options);
+  return args.map((arg) => redactor.redact(arg));
+};
+
+export const redactFields = (
+  fields: LogFields,
+  options: RedactOptions
+): LogFields => new Redactor(options).redact(fields) as LogFields;
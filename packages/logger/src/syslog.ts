@@ -0,0 +1,288 @@
+import type * as Dgram from "dgram";
+import type * as Net from "net";
+import os from "os";
+import { inNode } from "./env";
+import { getFieldsSuffix, inspectArgs, stripAnsi } from "./format";
+import { stringify } from "./json";
+import { LEVEL_PARAMS, LogLevel } from "./levels";
+import type { LogRecord, LogTransport } from "./types";
+
+let dgram: typeof Dgram | undefined;
+let net: typeof Net | undefined;
+if (inNode) {
+  try {
+    dgram = require(`${"dgram"}`);
+    net = require(`${"net"}`);
+  } catch (e) {}
+}
+
+export const SYSLOG_FACILITIES = {
+  kern: 0,
+  user: 1,
+  mail: 2,
+  daemon: 3,
+  auth: 4,
+  syslog: 5,
+  lpr: 6,
+  news: 7,
+  uucp: 8,
+  cron: 9,
+  authpriv: 10,
+  ftp: 11,
+  local0: 16,
+  local1: 17,
+  local2: 18,
+  local3: 19,
+  local4: 20,
+  local5: 21,
+  local6: 22,
+  local7: 23,
+};
+
+export type SyslogFacility = keyof typeof SYSLOG_FACILITIES;
+
+export type SyslogFormatOptions = {
+  /** Message format, RFC 5424 (default) or legacy BSD RFC 3164 */
+  rfc?: 5424 | 3164;
+  /** Facility name or code (default `user`) */
+  facility?: SyslogFacility | number;
+  /** Default to the process title */
+  appName?: string;
+  /** Default to the host name */
+  hostname?: string;
+  /** Structured data ID of the scope and fields parameters (default `bigl@32473`) */
+  sdId?: string;
+};
+
+export type SyslogTransportOptions = SyslogFormatOptions & {
+  /**
+   * `udp` (default), `tcp` or `unix` stream socket
+   *
+   * Node cannot open Unix datagram sockets: `/dev/log` and the journald socket are not supported,
+   * use UDP, TCP or a Unix stream socket the syslog daemon listens on
+   */
+  protocol?: "udp" | "tcp" | "unix";
+  /** Default `127.0.0.1` */
+  host?: string;
+  /** Default 514 */
+  port?: number;
+  /** Unix stream socket path, required with the `unix` protocol */
+  path?: string;
+};
+
+export interface SyslogTransport extends LogTransport {
+  close(): Promise<void>;
+}
+
+const DEFAULT_SD_ID = "bigl@32473";
+const DEFAULT_PORT = 514;
+const MAX_PENDING_MESSAGES = 1000;
+const NILVALUE = "-";
+
+const MONTHS = "Jan Feb Mar Apr May Jun Jul Aug Sep Oct Nov Dec".split(" ");
+
+/**
+ * Syslog severity of a level, custom levels are rounded to the nearest severity
+ * and levels after DEBUG are sent as DEBUG
+ */
+export const getSyslogSeverity = (level: LogLevel) =>
+  Math.min(Math.max(Math.round(level), LogLevel.EMERGENCY), LogLevel.DEBUG);
+
+const getPriority = (
+  level: LogLevel,
+  facility: SyslogFacility | number = "user"
+) =>
+  (typeof facility === "number" ? facility : SYSLOG_FACILITIES[facility]) * 8 +
+  getSyslogSeverity(level);
+
+// Header fields are printable US-ASCII without spaces, with a max length
+const headerField = (value: string | undefined, maxLength: number) =>
+  value?.replace(/[^\x21-\x7e]/g, "_").slice(0, maxLength) || NILVALUE;
+
+const sdName = (name: string) =>
+  name.replace(/[^\x21-\x7e]|[= \]"]/g, "_").slice(0, 32);
+
+const sdValue = (value: unknown) =>
+  (typeof value === "string" ? value : stringify(value)).replace(
+    /["\\\]]/g,
+    "\\$&"
+  );
+
+const getStructuredData = (record: LogRecord, sdId: string) => {
+  const params = Object.entries({
+    ...(record.scope !== undefined && { scope: record.scope }),
+    ...record.fields,
+  })
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${sdName(key)}="${sdValue(value)}"`);
+  return params.length ? `[${[sdId, ...params].join(" ")}]` : NILVALUE;
+};
+
+const getMessage = (record: LogRecord) =>
+  stripAnsi(
+    inspectArgs(
+      record.args,
+      { ...record.options.inspect, colors: false, breakLength: Infinity },
+      record.options.errors
+    ).join(" ")
+  );
+
+const getLegacyTimestamp = (date: Date) =>
+  `${MONTHS[date.getMonth()]} ${`${date.getDate()}`.padStart(2, " ")} ${[
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+  ]
+    .map((n) => `${n}`.padStart(2, "0"))
+    .join(":")}`;
+
+/**
+ * Format a record as a syslog message
+ */
+export const formatSyslog = (
+  record: LogRecord,
+  options: SyslogFormatOptions = {}
+) => {
+  const priority = getPriority(record.level, options.facility);
+  const hostname = options.hostname ?? (inNode ? os.hostname() : undefined);
+  const appName = options.appName ?? (inNode ? process.title : undefined);
+  const procId = inNode ? `${process.pid}` : undefined;
+
+  if (options.rfc === 3164) {
+    const tag = headerField(appName, 32);
+    return [
+      `<${priority}>${getLegacyTimestamp(record.timestamp)}`,
+      headerField(hostname, 255),
+      `${tag}${procId ? `[${procId}]` : ""}:`,
+      getMessage(record),
+      ...getFieldsSuffix({
+        ...(record.scope !== undefined && { scope: record.scope }),
+        ...record.fields,
+      }),
+    ].join(" ");
+  }
+  return [
+    `<${priority}>1`,
+    record.timestamp.toISOString(),
+    headerField(hostname, 255),
+    headerField(appName, 48),
+    headerField(procId, 128),
+    NILVALUE,
+    getStructuredData(record, options.sdId ?? DEFAULT_SD_ID),
+    getMessage(record),
+  ].join(" ");
+};
+
+class SyslogTransportImpl implements SyslogTransport {
+  private options: SyslogTransportOptions;
+
+  #udp?: Dgram.Socket;
+  #socket?: Net.Socket;
+  #connected = false;
+  #pending: string[] = [];
+  #closed = false;
+  #failing = false;
+
+  constructor(options: SyslogTransportOptions) {
+    if (!dgram || !net)
+      throw new Error("Syslog transport can only be used in Node environment");
+    if (options.protocol === "unix" && !options.path)
+      throw new Error(
+        "Syslog transport requires a `path` with the unix protocol"
+      );
+    this.options = options;
+  }
+
+  write(record: LogRecord) {
+    if (this.#closed) return;
+    const message = formatSyslog(record, this.options);
+    switch (this.options.protocol ?? "udp") {
+      case "udp":
+        this.#sendDatagram(message);
+        break;
+      case "tcp":
+        // RFC 6587 octet counting
+        this.#sendStream(`${Buffer.byteLength(message)} ${message}`);
+        break;
+      case "unix":
+        // Newline framing, line breaks are escaped as rsyslog does
+        this.#sendStream(message.replace(/\r?\n/g, "#012") + "\n");
+        break;
+    }
+  }
+
+  async close() {
+    this.#closed = true;
+    await new Promise<void>((res) =>
+      this.#socket ? this.#socket.end(res) : res()
+    );
+    await new Promise<void>((res) =>
+      this.#udp ? this.#udp.close(res) : res()
+    );
+    this.#socket = this.#udp = undefined;
+  }
+
+  #sendDatagram(message: string) {
+    if (!this.#udp) {
+      this.#udp = dgram!.createSocket(
+        net!.isIPv6(this.options.host ?? "") ? "udp6" : "udp4"
+      );
+      this.#udp.on("error", (e) => this.#reportError(e));
+      this.#udp.unref();
+    }
+    this.#udp.send(
+      message,
+      this.options.port ?? DEFAULT_PORT,
+      this.options.host ?? "127.0.0.1",
+      (e) => (e ? this.#reportError(e) : (this.#failing = false))
+    );
+  }
+
+  #sendStream(data: string) {
+    if (this.#connected) {
+      this.#socket!.write(data);
+      return;
+    }
+    this.#pending.push(data);
+    if (this.#pending.length > MAX_PENDING_MESSAGES) this.#pending.shift();
+    if (!this.#socket) this.#connect();
+  }
+
+  #connect() {
+    const { protocol, host, port, path } = this.options;
+    const socket =
+      protocol === "unix"
+        ? net!.createConnection({ path: path! })
+        : net!.createConnection({
+            host: host ?? "127.0.0.1",
+            port: port ?? DEFAULT_PORT,
+          });
+    socket.unref();
+    socket.on("connect", () => {
+      this.#connected = true;
+      this.#failing = false;
+      socket.write(this.#pending.join(""));
+      this.#pending = [];
+    });
+    socket.on("error", (e) => this.#reportError(e));
+    // Reconnect on next write
+    socket.on("close", () => {
+      this.#connected = false;
+      if (this.#socket === socket) this.#socket = undefined;
+    });
+    this.#socket = socket;
+  }
+
+  #reportError(e: Error) {
+    // Only report the first failure until the transport recovers
+    if (this.#failing) return;
+    this.#failing = true;
+    LEVEL_PARAMS[LogLevel.ERROR].methods[0](`[syslog transport] ${e.message}`);
+  }
+}
+
+export function syslogTransport(
+  options: SyslogTransportOptions = {}
+): SyslogTransport {
+  return new SyslogTransportImpl(options);
+}
@@ -0,0 +1,88 @@
+import type { InspectOptions } from "util";
+import type { LogLevel } from "./levels";
+import type { RedactOptions } from "./redact";
+
+export type LogParameters = Parameters<typeof console.log>;
+
+export type LogCallerInfo = {
+  functionName?: string;
+  fileName?: string;
+  columnNumber?: string;
+  lineNumber?: string;
+};
+
+export type LogFields = Record<string, unknown>;
+
+export type LogRecord = {
+  level: LogLevel;
+  scope?: string;
+  timestamp: Date;
+  /** Milliseconds elapsed since the previous record of the same logger, when `duration` is enabled */
+  elapsed?: number;
+  /** Log call location, when `stack` is enabled */
+  caller?: LogCallerInfo;
+  args: LogParameters;
+  /** Contextual fields bound to the emitting logger */
+  fields?: LogFields;
+  /** Number of open groups of the emitting logger and its parents */
+  depth?: number;
+  /** Computed options of the emitting logger */
+  options: LoggerOptions;
+};
+
+export interface LogTransport {
+  write(record: LogRecord): void;
+  flush?(): void | Promise<void>;
+  close?(): void | Promise<void>;
+}
+
+export type LogFormat = "pretty" | "json";
+
+/**
+ * `local` (default, `YYYY-MM-DD HH:mm:ss.SSS` in local time), `iso` (ISO-8601 UTC),
+ * `epoch` (milliseconds), a custom local time pattern or a function
+ */
+export type TimestampFormat =
+  | "local"
+  | "iso"
+  | "epoch"
+  | (string & {})
+  | ((date: Date) => string);
+
+export type DurationFormat = "s" | "ms" | "auto";
+
+export type PrefixSegment = "level" | "scope" | "date" | "duration" | "caller";
+
+export type LogFormatter = {
+  timestamp?: TimestampFormat;
+  duration?: DurationFormat;
+  /** Order of the prefix segments, `level` directly followed by `scope` share the same badge */
+  segments?: PrefixSegment[];
+  /** Full line formatter, its result is given as is to the console methods */
+  line?: (record: LogRecord) => string | LogParameters;
+};
+
+export type ErrorFormatOptions = {
+  /** Maximum number of stack frames displayed, `false` to hide the stack */
+  frames?: number | false;
+  /** Hide `node_modules` and Node internals stack frames */
+  hideNodeModules?: boolean;
+};
+
+export type LoggerOptions = {
+  enabled: boolean;
+  stack: boolean;
+  date: boolean;
+  duration: boolean;
+  level: LogLevel | undefined;
+  pad: boolean;
+  color: boolean;
+  format: LogFormat | undefined;
+  formatter: LogFormatter;
+  redact: RedactOptions | undefined;
+  errors: ErrorFormatOptions;
+  /** Collapse consecutive identical records, `true` or the delay in ms before logging the repeat count (default 5000) */
+  dedup: boolean | number;
+
+  inspect: InspectOptions;
+};